@@ -0,0 +1,27 @@
+// src/app/api/v1/admin/config/route.ts
+
+import { NextRequest } from "next/server";
+import { getLoadedConfig } from "@/lib/config/app-config";
+import { redactConfig } from "@/lib/config/config.loader";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { authorizeAdmin } from "@/lib/utils/admin-auth";
+import { apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The effective configuration with secrets masked, each source's resolved
+ * settings (including changes made through `/api/v1/admin/sources`), and the
+ * layers the configuration was built from.
+ */
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const { config, layers } = getLoadedConfig();
+  return apiSuccess(
+    { config: redactConfig(config), sources: ExchangeService.getInstance().sources.getSettings() },
+    { layers }
+  );
+});
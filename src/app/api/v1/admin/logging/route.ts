@@ -0,0 +1,49 @@
+// src/app/api/v1/admin/logging/route.ts
+
+import { NextRequest } from "next/server";
+import { authorizeAdmin } from "@/lib/utils/admin-auth";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { LOG_LEVEL_PRIORITY } from "@/lib/logging/log.types";
+import { LOG_LEVELS, Logger, LogLevel } from "@/lib/utils/logger";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+const describe = () => ({ level: Logger.getLevel(), sinks: Logger.getSinkNames() });
+
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+  return apiSuccess(describe());
+});
+
+/** `{ "level": "debug" }` changes the level for every logger until restart. */
+export const PATCH = withRequestContext(async (request: NextRequest) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError("Request body must be valid JSON.", 400);
+  }
+  const level = (body as { level?: unknown } | null)?.level;
+  if (!LOG_LEVELS.includes(level as LogLevel)) {
+    return apiError(
+      `Invalid log level "${String(level)}". Expected one of: ${LOG_LEVELS.join(", ")}.`,
+      400
+    );
+  }
+  const previous = Logger.getLevel();
+  const audit = () => new Logger("Admin").warn(`Log level changed from ${previous} to ${level}.`);
+  // Written under the more verbose of the two levels, so raising it still leaves a record.
+  if (LOG_LEVEL_PRIORITY[level as LogLevel] > LOG_LEVEL_PRIORITY[previous]) {
+    audit();
+    Logger.setLevel(level as LogLevel);
+  } else {
+    Logger.setLevel(level as LogLevel);
+    audit();
+  }
+  return apiSuccess(describe());
+});
@@ -0,0 +1,44 @@
+// src/app/api/v1/admin/sources/[name]/route.ts
+
+import { NextRequest } from "next/server";
+import { validateSourceSettings } from "@/lib/data-sources/source-settings.validator";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { authorizeAdmin } from "@/lib/utils/admin-auth";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: { name: string } };
+
+export const GET = withRequestContext(async (request: NextRequest, { params }: Params) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const source = ExchangeService.getInstance().sources.get(params.name);
+  if (!source) return apiError(`No source plugin named "${params.name}".`, 404);
+  return apiSuccess(source);
+});
+
+/**
+ * Changes a running source's settings, e.g. `{ "enabled": false }` to
+ * disable it. Takes effect immediately and lasts until the next restart.
+ */
+export const PATCH = withRequestContext(async (request: NextRequest, { params }: Params) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError("Request body must be valid JSON.", 400);
+  }
+  const result = validateSourceSettings(body);
+  if (!result.ok) {
+    return apiError("Invalid source settings.", 400, { errors: result.errors });
+  }
+  const source = ExchangeService.getInstance().sources.update(params.name, result.value);
+  if (!source) return apiError(`Source "${params.name}" has not been added.`, 404);
+  return apiSuccess(source);
+});
@@ -0,0 +1,56 @@
+// src/app/api/v1/admin/sources/route.ts
+
+import { NextRequest } from "next/server";
+import { validateSourceSettings } from "@/lib/data-sources/source-settings.validator";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { authorizeAdmin } from "@/lib/utils/admin-auth";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+/** Every registered source: its plugin metadata, settings and health. */
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const sources = ExchangeService.getInstance().sources.list();
+  return apiSuccess(sources, {
+    count: sources.length,
+    active: sources.filter((s) => s.active).length,
+  });
+});
+
+/**
+ * Adds a registered source that isn't running yet: `{ name, ...settings }`.
+ * It is enabled and ranked last unless the settings say otherwise.
+ */
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError("Request body must be valid JSON.", 400);
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return apiError("Body must be a JSON object.", 400);
+  }
+  const { name, ...settings } = body as Record<string, unknown>;
+  if (typeof name !== "string" || name === "") {
+    return apiError("Invalid source settings.", 400, { errors: ["name: Required"] });
+  }
+  const result = validateSourceSettings(settings, false);
+  if (!result.ok) {
+    return apiError("Invalid source settings.", 400, { errors: result.errors });
+  }
+
+  const manager = ExchangeService.getInstance().sources;
+  if (!manager.get(name)) return apiError(`No source plugin named "${name}".`, 404);
+  if (manager.isAdded(name)) {
+    return apiError(`Source "${name}" is already added; PATCH it instead.`, 409);
+  }
+  return apiSuccess(manager.add(name, result.value), undefined, 201);
+});
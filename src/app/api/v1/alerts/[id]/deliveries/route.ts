@@ -0,0 +1,41 @@
+// src/app/api/v1/alerts/[id]/deliveries/route.ts
+
+import { NextRequest } from "next/server";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { authorizeAdmin } from "@/lib/utils/admin-auth";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 500;
+
+/** The rule's webhook deliveries, most recent first. */
+export const GET = withRequestContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const limitParam = searchParams.get("limit");
+
+  let limit = 100;
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return apiError(
+        `Invalid limit "${limitParam}". Expected an integer between 1 and ${MAX_LIMIT}.`,
+        400
+      );
+    }
+  }
+
+  const { alerts } = ExchangeService.getInstance();
+  if (!(await alerts.getRule(params.id))) {
+    return apiError(`Alert rule "${params.id}" not found.`, 404);
+  }
+  const deliveries = await alerts.getDeliveries({ ruleId: params.id, limit });
+  return apiSuccess(deliveries, { returned: deliveries.length });
+});
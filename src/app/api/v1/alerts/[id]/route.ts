@@ -0,0 +1,59 @@
+// src/app/api/v1/alerts/[id]/route.ts
+
+import { NextRequest } from "next/server";
+import { validateAlertRuleInput } from "@/lib/alerts/alert-rule.validator";
+import { toPublicRule } from "@/lib/alerts/alert.manager";
+import { getAppConfig } from "@/lib/config/app-config";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { authorizeAdmin } from "@/lib/utils/admin-auth";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: { id: string } };
+
+export const GET = withRequestContext(async (request: NextRequest, { params }: Params) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const rule = await ExchangeService.getInstance().alerts.getRule(params.id);
+  if (!rule) return apiError(`Alert rule "${params.id}" not found.`, 404);
+  return apiSuccess(toPublicRule(rule));
+});
+
+/** Updates the given fields only; `condition` is replaced as a whole. */
+export const PATCH = withRequestContext(async (request: NextRequest, { params }: Params) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError("Request body must be valid JSON.", 400);
+  }
+  const result = validateAlertRuleInput(
+    body,
+    true,
+    getAppConfig().alerts.allowPrivateWebhooks
+  );
+  if (!result.ok) {
+    return apiError("Invalid alert rule.", 400, { errors: result.errors });
+  }
+  const rule = await ExchangeService.getInstance().alerts.updateRule(
+    params.id,
+    result.value
+  );
+  if (!rule) return apiError(`Alert rule "${params.id}" not found.`, 404);
+  return apiSuccess(toPublicRule(rule));
+});
+
+export const DELETE = withRequestContext(async (request: NextRequest, { params }: Params) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const deleted = await ExchangeService.getInstance().alerts.deleteRule(params.id);
+  if (!deleted) return apiError(`Alert rule "${params.id}" not found.`, 404);
+  return apiSuccess({ id: params.id, deleted: true });
+});
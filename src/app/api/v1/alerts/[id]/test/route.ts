@@ -0,0 +1,38 @@
+// src/app/api/v1/alerts/[id]/test/route.ts
+
+import { NextRequest } from "next/server";
+import { StandardizedAsset } from "@/lib/core/data-contracts";
+import { DataUnavailableError } from "@/lib/core/errors";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { authorizeAdmin } from "@/lib/utils/admin-auth";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Sends an `alert.test` event to the rule's webhook now and responds with the
+ * delivery record, so a receiver can be checked end to end.
+ */
+export const POST = withRequestContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const service = ExchangeService.getInstance();
+  const rule = await service.alerts.getRule(params.id);
+  if (!rule) return apiError(`Alert rule "${params.id}" not found.`, 404);
+
+  // Current rates make the test payload realistic, but aren't required.
+  let asset: StandardizedAsset | undefined;
+  try {
+    asset = (await service.getAssetData([rule.assetId]))[rule.assetId];
+  } catch (error) {
+    if (!(error instanceof DataUnavailableError)) throw error;
+  }
+
+  const delivery = await service.alerts.sendTest(rule.id, asset);
+  return apiSuccess(delivery);
+});
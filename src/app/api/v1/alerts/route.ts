@@ -0,0 +1,46 @@
+// src/app/api/v1/alerts/route.ts
+
+import { NextRequest } from "next/server";
+import { validateAlertRuleInput } from "@/lib/alerts/alert-rule.validator";
+import { toPublicRule } from "@/lib/alerts/alert.manager";
+import { getAppConfig } from "@/lib/config/app-config";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { authorizeAdmin } from "@/lib/utils/admin-auth";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const rules = await ExchangeService.getInstance().alerts.listRules();
+  return apiSuccess(rules.map(toPublicRule), { count: rules.length });
+});
+
+/**
+ * Creates a rule. The response is the only place the webhook `secret` is ever
+ * returned, generated here unless the client supplied one.
+ */
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError("Request body must be valid JSON.", 400);
+  }
+  const result = validateAlertRuleInput(
+    body,
+    false,
+    getAppConfig().alerts.allowPrivateWebhooks
+  );
+  if (!result.ok) {
+    return apiError("Invalid alert rule.", 400, { errors: result.errors });
+  }
+  const rule = await ExchangeService.getInstance().alerts.createRule(result.value);
+  return apiSuccess(rule, undefined, 201);
+});
@@ -0,0 +1,99 @@
+// src/app/api/v1/assets/[id]/history/route.ts
+
+import {
+  ASSET_IDENTIFIER_PATTERN,
+  CANDLE_INTERVALS,
+  CandleInterval,
+  GAP_FILL_POLICIES,
+  GapFillPolicy,
+  PRICE_SIDES,
+  PriceSide,
+  RATE_TYPES,
+  RateType,
+} from "@/lib/core/data-contracts";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import {
+  apiError,
+  apiSuccess,
+  parseTimeParam,
+} from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+export const GET = withRequestContext(async (
+  request: Request,
+  { params }: { params: { id: string } }
+) => {
+  const { searchParams } = new URL(request.url);
+  const id = params.id.toUpperCase();
+  const rateType = searchParams.get("rateType");
+  const source = searchParams.get("source") ?? undefined;
+  const from = parseTimeParam(searchParams.get("from"));
+  const to = parseTimeParam(searchParams.get("to"));
+  const interval = searchParams.get("interval");
+  const side = searchParams.get("side");
+  const gapFill = searchParams.get("gaps") ?? "mark_missing";
+
+  if (!ASSET_IDENTIFIER_PATTERN.test(id)) {
+    return apiError(`Invalid asset identifier "${params.id}".`, 400);
+  }
+  if (rateType !== null && !RATE_TYPES.includes(rateType as RateType)) {
+    return apiError(
+      `Invalid rate type "${rateType}". Expected one of: ${RATE_TYPES.join(", ")}.`,
+      400
+    );
+  }
+  if (from === null || to === null) {
+    return apiError(
+      "Invalid time range. Use epoch milliseconds or ISO-8601 dates.",
+      400
+    );
+  }
+  if (from !== undefined && to !== undefined && from > to) {
+    return apiError(`"from" must not be after "to".`, 400);
+  }
+
+  const query = {
+    assetId: id,
+    rateType: (rateType as RateType | null) ?? undefined,
+    source,
+    from,
+    to,
+  };
+
+  if (interval !== null) {
+    if (!CANDLE_INTERVALS.includes(interval as CandleInterval)) {
+      return apiError(
+        `Invalid interval "${interval}". Expected one of: ${CANDLE_INTERVALS.join(", ")}.`,
+        400
+      );
+    }
+    if (side !== null && !PRICE_SIDES.includes(side as PriceSide)) {
+      return apiError(
+        `Invalid side "${side}". Expected one of: ${PRICE_SIDES.join(", ")}.`,
+        400
+      );
+    }
+    if (!GAP_FILL_POLICIES.includes(gapFill as GapFillPolicy)) {
+      return apiError(
+        `Invalid gaps policy "${gapFill}". Expected one of: ${GAP_FILL_POLICIES.join(", ")}.`,
+        400
+      );
+    }
+    try {
+      const series = await ExchangeService.getInstance().getCandles(query, {
+        interval: interval as CandleInterval,
+        side: (side as PriceSide | null) ?? undefined,
+        gapFill: gapFill as GapFillPolicy,
+      });
+      return apiSuccess(series, { count: series.length, from, to });
+    } catch (error) {
+      if (error instanceof RangeError) return apiError(error.message, 400);
+      throw error;
+    }
+  }
+
+  const records = await ExchangeService.getInstance().getHistory(query);
+  return apiSuccess(records, { count: records.length, from, to });
+});
@@ -0,0 +1,32 @@
+// src/app/api/v1/assets/[id]/route.ts
+
+import { ASSET_IDENTIFIER_PATTERN } from "@/lib/core/data-contracts";
+import { DataUnavailableError } from "@/lib/core/errors";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+export const GET = withRequestContext(async (
+  _request: Request,
+  { params }: { params: { id: string } }
+) => {
+  const id = params.id.toUpperCase();
+  if (!ASSET_IDENTIFIER_PATTERN.test(id)) {
+    return apiError(`Invalid asset identifier "${params.id}".`, 400);
+  }
+
+  try {
+    const { assets, meta } = await ExchangeService.getInstance().getAssets([id]);
+    if (!assets[id]) {
+      return apiError(`Asset "${id}" not found.`, 404);
+    }
+    return apiSuccess(assets[id], meta && { snapshot: meta });
+  } catch (error) {
+    if (error instanceof DataUnavailableError) {
+      return apiError(error.message, 503);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,35 @@
+// src/app/api/v1/assets/catalog/route.ts
+
+import { ASSET_TYPES, AssetType } from "@/lib/core/data-contracts";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+/** Every asset the registry defines, with localized names and aliases. */
+export const GET = withRequestContext(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type");
+  const quote = searchParams.get("quote")?.toUpperCase();
+
+  if (type !== null && !ASSET_TYPES.includes(type as AssetType)) {
+    return apiError(
+      `Invalid asset type "${type}". Expected one of: ${ASSET_TYPES.join(", ")}.`,
+      400
+    );
+  }
+  if (quote !== undefined && !/^[A-Z]{3}$/.test(quote)) {
+    return apiError(`Invalid quote currency "${quote}".`, 400);
+  }
+
+  const catalog = await ExchangeService.getInstance().getCatalog({
+    type: (type as AssetType | null) ?? undefined,
+    quote,
+  });
+  return apiSuccess(catalog.assets, {
+    count: catalog.assets.length,
+    available: catalog.assets.filter((a) => a.available).length,
+    unknown: catalog.unknown,
+  });
+});
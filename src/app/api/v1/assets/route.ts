@@ -0,0 +1,61 @@
+// src/app/api/v1/assets/route.ts
+
+import {
+  ASSET_IDENTIFIER_PATTERN,
+  ASSET_TYPES,
+  AssetType,
+  StandardizedAsset,
+} from "@/lib/core/data-contracts";
+import { DataUnavailableError } from "@/lib/core/errors";
+import { AssetSelection, ExchangeService } from "@/lib/services/exchange.service";
+import { apiError, apiSuccess, parseListParam } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+export const GET = withRequestContext(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const ids = parseListParam(searchParams.get("ids")).map((id) =>
+    id.toUpperCase()
+  );
+  const type = searchParams.get("type");
+
+  const invalidIds = ids.filter((id) => !ASSET_IDENTIFIER_PATTERN.test(id));
+  if (invalidIds.length > 0) {
+    return apiError("Invalid asset identifiers.", 400, { invalidIds });
+  }
+  if (type !== null && !ASSET_TYPES.includes(type as AssetType)) {
+    return apiError(
+      `Invalid asset type "${type}". Expected one of: ${ASSET_TYPES.join(", ")}.`,
+      400
+    );
+  }
+
+  let selection: AssetSelection;
+  try {
+    selection = await ExchangeService.getInstance().getAssets(
+      ids.length > 0 ? ids : undefined
+    );
+  } catch (error) {
+    if (error instanceof DataUnavailableError) {
+      return apiError(error.message, 503);
+    }
+    throw error;
+  }
+
+  const filtered: Record<string, StandardizedAsset> = {};
+  for (const [id, asset] of Object.entries(selection.assets)) {
+    if (type === null || asset.type === type) filtered[id] = asset;
+  }
+
+  if (ids.length > 0 && Object.keys(filtered).length === 0) {
+    return apiError("No assets found for the given IDs.", 404, { ids });
+  }
+
+  const missing = ids.filter((id) => !filtered[id]);
+  return apiSuccess(filtered, {
+    count: Object.keys(filtered).length,
+    ...(missing.length > 0 && { missing }),
+    ...(selection.meta && { snapshot: selection.meta }),
+  });
+});
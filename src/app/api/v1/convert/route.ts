@@ -0,0 +1,57 @@
+// src/app/api/v1/convert/route.ts
+
+import { RATE_TYPES, RateType } from "@/lib/core/data-contracts";
+import { DataUnavailableError } from "@/lib/core/errors";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export const GET = withRequestContext(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from")?.toUpperCase() ?? "";
+  const to = searchParams.get("to")?.toUpperCase() ?? "";
+  const amountParam = searchParams.get("amount");
+  const rateType = searchParams.get("rateType") ?? "parallel_market";
+
+  if (!CURRENCY_CODE.test(from) || !CURRENCY_CODE.test(to)) {
+    return apiError(`"from" and "to" must be 3-letter currency codes.`, 400);
+  }
+  if (from === to) {
+    return apiError(`"from" and "to" must differ.`, 400);
+  }
+  const amount = amountParam === null ? 1 : Number(amountParam);
+  if (!Number.isFinite(amount) || amount < 0) {
+    return apiError(`Invalid amount "${amountParam}".`, 400);
+  }
+  if (!RATE_TYPES.includes(rateType as RateType)) {
+    return apiError(
+      `Invalid rate type "${rateType}". Expected one of: ${RATE_TYPES.join(", ")}.`,
+      400
+    );
+  }
+
+  try {
+    const result = await ExchangeService.getInstance().convert(
+      from,
+      to,
+      amount,
+      rateType as RateType
+    );
+    if (!result) {
+      return apiError(
+        `No ${rateType} conversion path from ${from} to ${to}.`,
+        404
+      );
+    }
+    return apiSuccess(result, { derived: result.asset.derivation !== undefined });
+  } catch (error) {
+    if (error instanceof DataUnavailableError) {
+      return apiError(error.message, 503);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,158 @@
+// src/app/api/v1/export/route.ts
+
+import {
+  ASSET_IDENTIFIER_PATTERN,
+  ASSET_TYPES,
+  AssetType,
+  EXPORT_FORMATS,
+  ExportFormat,
+  RATE_TYPES,
+  RateType,
+} from "@/lib/core/data-contracts";
+import { DataUnavailableError, ExportTooLargeError } from "@/lib/core/errors";
+import { EXPORT_CONTENT_TYPES } from "@/lib/export/export.formatter";
+import { ExchangeService, ExportQuery } from "@/lib/services/exchange.service";
+import {
+  apiError,
+  parseListParam,
+  parseTimeParam,
+} from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+import { isValidTimeZone } from "@/lib/utils/zoned-time";
+
+export const dynamic = "force-dynamic";
+
+const DELIMITERS: Record<string, string> = {
+  comma: ",",
+  semicolon: ";",
+  tab: "\t",
+  pipe: "|",
+};
+const MAX_PRECISION = 12;
+
+/**
+ * Downloads the current merged snapshot, or stored history when `from` or
+ * `to` is given, as CSV, NDJSON or columnar JSON. The body is streamed; an
+ * error after the first chunk ends the download early.
+ */
+export const GET = withRequestContext(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") ?? "csv";
+  const ids = parseListParam(searchParams.get("ids")).map((id) =>
+    id.toUpperCase()
+  );
+  const type = searchParams.get("type");
+  const rateType = searchParams.get("rateType");
+  const source = searchParams.get("source") ?? undefined;
+  const from = parseTimeParam(searchParams.get("from"));
+  const to = parseTimeParam(searchParams.get("to"));
+  const delimiter = searchParams.get("delimiter") ?? "comma";
+  const precision = searchParams.get("precision");
+  const timeZone = searchParams.get("tz") ?? "UTC";
+
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return apiError(
+      `Invalid format "${format}". Expected one of: ${EXPORT_FORMATS.join(", ")}.`,
+      400
+    );
+  }
+  const invalidIds = ids.filter((id) => !ASSET_IDENTIFIER_PATTERN.test(id));
+  if (invalidIds.length > 0) {
+    return apiError("Invalid asset identifiers.", 400, { invalidIds });
+  }
+  if (type !== null && !ASSET_TYPES.includes(type as AssetType)) {
+    return apiError(
+      `Invalid asset type "${type}". Expected one of: ${ASSET_TYPES.join(", ")}.`,
+      400
+    );
+  }
+  if (rateType !== null && !RATE_TYPES.includes(rateType as RateType)) {
+    return apiError(
+      `Invalid rate type "${rateType}". Expected one of: ${RATE_TYPES.join(", ")}.`,
+      400
+    );
+  }
+  if (from === null || to === null) {
+    return apiError(
+      "Invalid time range. Use epoch milliseconds or ISO-8601 dates.",
+      400
+    );
+  }
+  if (from !== undefined && to !== undefined && from > to) {
+    return apiError(`"from" must not be after "to".`, 400);
+  }
+  if (!(delimiter in DELIMITERS) && !Object.values(DELIMITERS).includes(delimiter)) {
+    return apiError(
+      `Invalid delimiter "${delimiter}". Expected one of: ${Object.keys(DELIMITERS).join(", ")}.`,
+      400
+    );
+  }
+  const decimals = precision === null ? undefined : Number(precision);
+  if (
+    decimals !== undefined &&
+    (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_PRECISION)
+  ) {
+    return apiError(
+      `Invalid precision "${precision}". Expected an integer from 0 to ${MAX_PRECISION}.`,
+      400
+    );
+  }
+  if (!isValidTimeZone(timeZone)) {
+    return apiError(`Invalid time zone "${timeZone}".`, 400);
+  }
+
+  const query: ExportQuery = {
+    scope: from !== undefined || to !== undefined ? "history" : "snapshot",
+    ids: ids.length > 0 ? ids : undefined,
+    type: (type as AssetType | null) ?? undefined,
+    rateType: (rateType as RateType | null) ?? undefined,
+    source,
+    from,
+    to,
+  };
+
+  let chunks: AsyncIterable<string>;
+  try {
+    chunks = await ExchangeService.getInstance().exportData(query, {
+      format: format as ExportFormat,
+      delimiter: DELIMITERS[delimiter] ?? delimiter,
+      precision: decimals,
+      timeZone,
+    });
+  } catch (error) {
+    if (error instanceof DataUnavailableError) {
+      return apiError(error.message, 503);
+    }
+    if (error instanceof ExportTooLargeError) {
+      return apiError(error.message, 413, { rowCount: error.rowCount, limit: error.limit });
+    }
+    throw error;
+  }
+
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  const extension = format === "columnar" ? "json" : format;
+  const filename = `${query.scope}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  return new Response(stream, {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format as ExportFormat],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+});
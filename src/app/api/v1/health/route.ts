@@ -0,0 +1,13 @@
+// src/app/api/v1/health/route.ts
+
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { apiSuccess } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+export const GET = withRequestContext(async () => {
+  const health = ExchangeService.getInstance().getServiceHealth();
+  // A degraded service still answers requests; only a full outage is a 503.
+  return apiSuccess(health, undefined, health.status === "failed" ? 503 : 200);
+});
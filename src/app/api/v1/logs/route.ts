@@ -0,0 +1,78 @@
+// src/app/api/v1/logs/route.ts
+
+import { ExchangeService } from "@/lib/services/exchange.service";
+import {
+  apiError,
+  apiSuccess,
+  parseListParam,
+  parseTimeParam,
+} from "@/lib/utils/api-response";
+import { LOG_LEVELS, LogLevel, LogQuery } from "@/lib/utils/logger";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 500;
+
+/**
+ * Recent log entries, newest page first. Filters: `level` (minimum),
+ * `component` (comma-separated; `Name*` matches a prefix), `correlationId`,
+ * `from` / `to`. Page back with `before=<meta.nextCursor>`.
+ */
+export const GET = withRequestContext(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const level = searchParams.get("level");
+  const limitParam = searchParams.get("limit");
+  const beforeParam = searchParams.get("before");
+
+  if (level !== null && !LOG_LEVELS.includes(level as LogLevel)) {
+    return apiError(
+      `Invalid log level "${level}". Expected one of: ${LOG_LEVELS.join(", ")}.`,
+      400
+    );
+  }
+
+  let limit = MAX_LIMIT;
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return apiError(
+        `Invalid limit "${limitParam}". Expected an integer between 1 and ${MAX_LIMIT}.`,
+        400
+      );
+    }
+  }
+
+  const from = parseTimeParam(searchParams.get("from"));
+  const to = parseTimeParam(searchParams.get("to"));
+  if (from === null || to === null) {
+    return apiError(
+      "Invalid time range. Use epoch milliseconds or ISO-8601 dates.",
+      400
+    );
+  }
+
+  let before: number | undefined;
+  if (beforeParam !== null) {
+    before = Number(beforeParam);
+    if (!Number.isInteger(before) || before < 1) {
+      return apiError(`Invalid cursor "${beforeParam}".`, 400);
+    }
+  }
+
+  const query: LogQuery = {
+    level: (level as LogLevel | null) ?? undefined,
+    components: parseListParam(searchParams.get("component")),
+    correlationId: searchParams.get("correlationId") ?? undefined,
+    from,
+    to,
+    before,
+    limit,
+  };
+  const page = ExchangeService.getInstance().getLogs(query);
+  return apiSuccess(page.entries, {
+    total: page.total,
+    returned: page.entries.length,
+    nextCursor: page.nextCursor,
+  });
+});
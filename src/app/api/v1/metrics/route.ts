@@ -0,0 +1,13 @@
+// src/app/api/v1/metrics/route.ts
+
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+/** Prometheus scrape target; plain text rather than the JSON envelope. */
+export const GET = withRequestContext(async () => {
+  return new Response(ExchangeService.getInstance().getMetrics(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+});
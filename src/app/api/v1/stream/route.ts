@@ -0,0 +1,127 @@
+// src/app/api/v1/stream/route.ts
+
+import {
+  ASSET_IDENTIFIER_PATTERN,
+  RateUpdateEvent,
+  StandardizedAsset,
+} from "@/lib/core/data-contracts";
+import { DataUnavailableError } from "@/lib/core/errors";
+import { getAppConfig } from "@/lib/config/app-config";
+import { ExchangeService } from "@/lib/services/exchange.service";
+import { apiError, parseListParam } from "@/lib/utils/api-response";
+import { withRequestContext } from "@/lib/utils/request-context";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Server-Sent Events stream of rate changes. A new client first gets a
+ * `snapshot` event with the current assets, then a `rates` event whenever a
+ * merged snapshot changes any of them. A client reconnecting with
+ * `Last-Event-ID` (or `?lastEventId=`) gets the events it missed instead of a
+ * snapshot, as long as they are still buffered.
+ */
+export const GET = withRequestContext(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const ids = parseListParam(searchParams.get("ids")).map((id) =>
+    id.toUpperCase()
+  );
+  const invalidIds = ids.filter((id) => !ASSET_IDENTIFIER_PATTERN.test(id));
+  if (invalidIds.length > 0) {
+    return apiError("Invalid asset identifiers.", 400, { invalidIds });
+  }
+  const lastEventId =
+    request.headers.get("last-event-id") ??
+    searchParams.get("lastEventId") ??
+    undefined;
+
+  const service = ExchangeService.getInstance();
+  const { heartbeatIntervalMs, retryMs } = getAppConfig().streaming;
+
+  // Events published while the snapshot loads are held until it has been sent.
+  const queued: RateUpdateEvent[] = [];
+  let deliver: ((event: RateUpdateEvent) => void) | null = null;
+  const { replay, unsubscribe } = service.subscribeToUpdates(
+    (event) => (deliver ? deliver(event) : queued.push(event)),
+    lastEventId
+  );
+
+  let snapshot: { id: string | null; assets: Record<string, StandardizedAsset> } | null =
+    null;
+  if (!replay) {
+    const id = service.getLastUpdateId();
+    try {
+      const assets =
+        ids.length > 0
+          ? await service.getAssetData(ids)
+          : await service.getAllAssets();
+      snapshot = { id, assets };
+    } catch (error) {
+      unsubscribe();
+      if (error instanceof DataUnavailableError) {
+        return apiError(error.message, 503);
+      }
+      throw error;
+    }
+  }
+
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away between the abort and our cleanup.
+          close();
+        }
+      };
+      const sendUpdate = (event: RateUpdateEvent) => {
+        const updates =
+          ids.length > 0
+            ? event.updates.filter((u) => ids.includes(u.assetId))
+            : event.updates;
+        if (updates.length === 0) return;
+        send(formatEvent("rates", { ...event, updates }, event.id));
+      };
+
+      send(`retry: ${retryMs}\n\n`);
+      if (snapshot) {
+        send(formatEvent("snapshot", snapshot.assets, snapshot.id));
+      }
+      replay?.forEach(sendUpdate);
+      queued.forEach(sendUpdate);
+      deliver = sendUpdate;
+
+      heartbeat = setInterval(() => send(": heartbeat\n\n"), heartbeatIntervalMs);
+      request.signal.addEventListener("abort", () => {
+        close();
+        try {
+          controller.close();
+        } catch {
+          // Already closed.
+        }
+      });
+    },
+    cancel: close,
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop nginx from buffering the stream.
+      "X-Accel-Buffering": "no",
+    },
+  });
+});
+
+function formatEvent(event: string, data: unknown, id: string | null): string {
+  return `${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -29,13 +29,14 @@ interface AssetChartProps {
 }
 
 export const AssetChart = ({ asset }: AssetChartProps) => {
+  const unit = Object.values(asset.rates)[0]?.unit ?? "";
   const data = {
     labels: asset.historicalData.map((d) =>
       new Date(d.timestamp).toLocaleDateString()
     ),
     datasets: [
       {
-        label: `${asset.name} Price (${asset.rateData.unit})`,
+        label: `${asset.name} Price (${unit})`,
         data: asset.historicalData.map((d) => d.value),
         borderColor: "rgb(75, 192, 192)",
         backgroundColor: "rgba(75, 192, 192, 0.2)",
@@ -11,7 +11,7 @@ export default function HomePage() {
 
   useEffect(() => {
     const assetIds = "USD_EGP,OIL_WTI,GOLD_XAU";
-    fetch(`/api/v1/assets/demo?ids=${assetIds}`)
+    fetch(`/api/v1/assets?ids=${assetIds}`)
       .then((res) => res.json())
       .then((data) => {
         if (data.success) {
@@ -46,10 +46,12 @@ export default function HomePage() {
               <span>{asset.identifier}</span>
             </div>
             <div className="asset-rate">
-              <p>
-                <strong>Price:</strong> {asset.rateData.midRate.toFixed(2)}{" "}
-                {asset.rateData.unit}
-              </p>
+              {Object.entries(asset.rates).map(([rateType, rate]) => (
+                <p key={rateType}>
+                  <strong>{rateType}:</strong> {rate.midRate.toFixed(2)}{" "}
+                  {rate.unit}
+                </p>
+              ))}
               <p>
                 <small>Source: {asset.source}</small>
               </p>
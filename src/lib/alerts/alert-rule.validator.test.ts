@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { validateAlertRuleInput } from "./alert-rule.validator";
+
+const rule = (webhookUrl: string) => ({
+  assetId: "usd_egp",
+  webhookUrl,
+  condition: { kind: "premium", comparison: "above", percent: 15 },
+});
+
+describe("validateAlertRuleInput", () => {
+  it("accepts a complete rule and upper-cases the asset", () => {
+    const result = validateAlertRuleInput(rule("https://hooks.example.com/fx"));
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        assetId: "USD_EGP",
+        webhookUrl: "https://hooks.example.com/fx",
+        condition: { kind: "premium", comparison: "above", percent: 15 },
+      },
+    });
+  });
+
+  it("requires every field on create, none on update", () => {
+    const created = validateAlertRuleInput({});
+    expect(created.ok || created.errors).toEqual([
+      '"assetId" is required.',
+      '"condition" is required.',
+      '"webhookUrl" is required.',
+    ]);
+    expect(validateAlertRuleInput({ enabled: false }, true)).toEqual({
+      ok: true,
+      value: { enabled: false },
+    });
+  });
+
+  it.each([
+    "http://localhost:3000/hook",
+    "http://127.0.0.1/",
+    "http://2130706433/",
+    "http://10.0.0.8/",
+    "http://172.16.4.1/",
+    "http://192.168.1.10/",
+    "http://169.254.169.254/latest/meta-data",
+    "http://0.0.0.0/",
+    "http://[::1]/",
+    "http://[fe80::1]/",
+    "http://[fd12::1]/",
+    "http://[::ffff:127.0.0.1]/",
+  ])("refuses the internal webhook %s", (url) => {
+    const result = validateAlertRuleInput(rule(url));
+    expect(result.ok || result.errors).toEqual([
+      '"webhookUrl" must not point at a loopback, link-local or private address.',
+    ]);
+  });
+
+  it.each(["http://172.32.0.1/", "http://8.8.8.8/", "http://[2001:db8::1]/"])(
+    "accepts the public webhook %s",
+    (url) => expect(validateAlertRuleInput(rule(url)).ok).toBe(true)
+  );
+
+  it("allows internal webhooks when configured to", () => {
+    expect(validateAlertRuleInput(rule("http://localhost/"), false, true).ok).toBe(true);
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  ALERT_COMPARISONS,
+  ALERT_CONDITION_KINDS,
+  AlertCondition,
+  ASSET_IDENTIFIER_PATTERN,
+  CHANGE_WINDOWS,
+  ChangeWindow,
+  PRICE_SIDES,
+  RATE_TYPES,
+  RateType,
+} from "@/lib/core/data-contracts";
+
+/** The fields a client may set when creating or updating a rule. */
+export interface AlertRuleInput {
+  name?: string;
+  assetId?: string;
+  condition?: AlertCondition;
+  webhookUrl?: string;
+  secret?: string;
+  enabled?: boolean;
+  cooldownMs?: number;
+}
+
+export type ValidationResult =
+  | { ok: true; value: AlertRuleInput }
+  | { ok: false; errors: string[] };
+
+const SIDES = [...PRICE_SIDES, "midRate"];
+const DIRECTIONS = ["up", "down"];
+
+/**
+ * Checks a request body. With `partial` (for updates) every field is
+ * optional; otherwise `assetId`, `condition` and `webhookUrl` are required.
+ * Webhooks on loopback, link-local or private addresses are refused unless
+ * `allowPrivateHosts` is set, so rules can't be used to reach internal
+ * services from the server.
+ */
+export function validateAlertRuleInput(
+  body: unknown,
+  partial = false,
+  allowPrivateHosts = false
+): ValidationResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ["Body must be a JSON object."] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: AlertRuleInput = {};
+
+  const required = (field: string) => {
+    if (!partial && input[field] === undefined) errors.push(`"${field}" is required.`);
+    return input[field] !== undefined;
+  };
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || input.name.length > 200) {
+      errors.push('"name" must be a string of at most 200 characters.');
+    } else value.name = input.name;
+  }
+
+  if (required("assetId")) {
+    const assetId = String(input.assetId).toUpperCase();
+    if (typeof input.assetId !== "string" || !ASSET_IDENTIFIER_PATTERN.test(assetId)) {
+      errors.push('"assetId" must be an asset identifier such as USD_EGP.');
+    } else value.assetId = assetId;
+  }
+
+  if (required("condition")) {
+    const condition = validateCondition(input.condition, errors);
+    if (condition) value.condition = condition;
+  }
+
+  if (required("webhookUrl")) {
+    if (typeof input.webhookUrl !== "string" || !isHttpUrl(input.webhookUrl)) {
+      errors.push('"webhookUrl" must be an http or https URL.');
+    } else if (!allowPrivateHosts && isPrivateHost(new URL(input.webhookUrl).hostname)) {
+      errors.push('"webhookUrl" must not point at a loopback, link-local or private address.');
+    } else value.webhookUrl = input.webhookUrl;
+  }
+
+  if (input.secret !== undefined) {
+    if (typeof input.secret !== "string" || input.secret.length < 16) {
+      errors.push('"secret" must be a string of at least 16 characters.');
+    } else value.secret = input.secret;
+  }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") errors.push('"enabled" must be a boolean.');
+    else value.enabled = input.enabled;
+  }
+
+  if (input.cooldownMs !== undefined) {
+    if (!isNonNegativeNumber(input.cooldownMs)) {
+      errors.push('"cooldownMs" must be a non-negative number.');
+    } else value.cooldownMs = input.cooldownMs;
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+function validateCondition(raw: unknown, errors: string[]): AlertCondition | null {
+  if (typeof raw !== "object" || raw === null) {
+    errors.push('"condition" must be an object.');
+    return null;
+  }
+  const c = raw as Record<string, unknown>;
+  const before = errors.length;
+  const oneOf = (field: string, allowed: readonly unknown[]) => {
+    if (!allowed.includes(c[field])) {
+      errors.push(`"condition.${field}" must be one of: ${allowed.join(", ")}.`);
+    }
+  };
+  const number = (field: string) => {
+    if (!isNonNegativeNumber(c[field])) {
+      errors.push(`"condition.${field}" must be a non-negative number.`);
+    }
+  };
+
+  oneOf("kind", ALERT_CONDITION_KINDS);
+  switch (c.kind) {
+    case "threshold":
+      oneOf("rateType", RATE_TYPES);
+      oneOf("side", SIDES);
+      oneOf("comparison", ALERT_COMPARISONS);
+      number("value");
+      if (errors.length > before) return null;
+      return {
+        kind: "threshold",
+        rateType: c.rateType as RateType,
+        side: c.side as "buying" | "selling" | "midRate",
+        comparison: c.comparison as "above" | "below",
+        value: c.value as number,
+      };
+    case "percent_change":
+      oneOf("rateType", RATE_TYPES);
+      oneOf("window", CHANGE_WINDOWS);
+      number("percent");
+      if (c.direction !== undefined) oneOf("direction", DIRECTIONS);
+      if (errors.length > before) return null;
+      return {
+        kind: "percent_change",
+        rateType: c.rateType as RateType,
+        window: c.window as ChangeWindow,
+        percent: c.percent as number,
+        ...(c.direction !== undefined && { direction: c.direction as "up" | "down" }),
+      };
+    case "premium":
+      oneOf("comparison", ALERT_COMPARISONS);
+      if (typeof c.percent !== "number" || !Number.isFinite(c.percent)) {
+        errors.push('"condition.percent" must be a number.');
+      }
+      if (errors.length > before) return null;
+      return {
+        kind: "premium",
+        comparison: c.comparison as "above" | "below",
+        percent: c.percent as number,
+      };
+    default:
+      return null;
+  }
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// IPv4 ranges as [first octet, second octet from, second octet to].
+const PRIVATE_IPV4_RANGES: [number, number, number][] = [
+  [0, 0, 255], // "this" network
+  [10, 0, 255],
+  [100, 64, 127], // carrier-grade NAT
+  [127, 0, 255], // loopback
+  [169, 254, 254], // link-local, including cloud metadata endpoints
+  [172, 16, 31],
+  [192, 168, 168],
+];
+
+/**
+ * Whether a URL hostname names this machine or a non-public network. `URL`
+ * has already normalized numeric forms like `2130706433` to dotted IPv4 and
+ * wrapped IPv6 in brackets. Names that merely resolve to such addresses are
+ * not caught here.
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+
+  const ipv4 = /^(\d+)\.(\d+)\.\d+\.\d+$/.exec(host);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return PRIVATE_IPV4_RANGES.some(([first, from, to]) => a === first && b >= from && b <= to);
+  }
+
+  if (!host.startsWith("[")) return false;
+  const ipv6 = host.slice(1, -1);
+  const mapped = /^::ffff:(.+)$/.exec(ipv6);
+  if (mapped) {
+    // URL keeps mapped IPv4 in hex, e.g. ::ffff:7f00:1.
+    const hex = /^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(mapped[1]);
+    if (!hex) return isPrivateHost(mapped[1]);
+    const high = parseInt(hex[1], 16);
+    return isPrivateHost(`${high >> 8}.${high & 255}.0.0`);
+  }
+  return (
+    ipv6 === "::" ||
+    ipv6 === "::1" ||
+    /^f[cd][0-9a-f]{0,2}:/.test(ipv6) || // unique local, fc00::/7
+    /^fe[89ab][0-9a-f]?:/.test(ipv6) // link-local, fe80::/10
+  );
+}
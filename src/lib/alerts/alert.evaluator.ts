@@ -0,0 +1,62 @@
+import {
+  AlertCondition,
+  StandardizedAsset,
+} from "@/lib/core/data-contracts";
+import { computeParallelPremium } from "@/lib/analytics/asset.analytics";
+
+/**
+ * The figure a condition is checked against, taken from an asset that
+ * carries its analytics. Undefined when the asset lacks the rate type, or the
+ * history needed for a change, so the condition can't be judged either way.
+ */
+export function observeCondition(
+  condition: AlertCondition,
+  asset: StandardizedAsset
+): number | undefined {
+  switch (condition.kind) {
+    case "threshold":
+      return asset.rates[condition.rateType]?.[condition.side];
+    case "percent_change":
+      return asset.analytics?.changes[condition.rateType]?.[condition.window]
+        ?.percent;
+    case "premium":
+      return asset.analytics?.parallelPremiumPercent ?? computeParallelPremium(asset);
+  }
+}
+
+export function conditionHolds(
+  condition: AlertCondition,
+  observed: number
+): boolean {
+  switch (condition.kind) {
+    case "threshold":
+      return condition.comparison === "above"
+        ? observed > condition.value
+        : observed < condition.value;
+    case "percent_change":
+      if (condition.direction === "up") return observed >= condition.percent;
+      if (condition.direction === "down") return observed <= -condition.percent;
+      return Math.abs(observed) >= condition.percent;
+    case "premium":
+      return condition.comparison === "above"
+        ? observed > condition.percent
+        : observed < condition.percent;
+  }
+}
+
+/** A one-line summary for logs, e.g. "USD_EGP parallel_market selling above 52". */
+export function describeCondition(
+  assetId: string,
+  condition: AlertCondition
+): string {
+  switch (condition.kind) {
+    case "threshold":
+      return `${assetId} ${condition.rateType} ${condition.side} ${condition.comparison} ${condition.value}`;
+    case "percent_change":
+      return `${assetId} ${condition.rateType} moves ${
+        condition.direction ?? "either way"
+      } by ${condition.percent}% in ${condition.window}`;
+    case "premium":
+      return `${assetId} parallel premium ${condition.comparison} ${condition.percent}%`;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { AlertEvent, AlertRule, WebhookDelivery } from "@/lib/core/data-contracts";
+import { IAlertRuleStore } from "@/lib/storage/alert-rule.store";
+import { IWebhookDeliveryStore } from "@/lib/storage/webhook-delivery.store";
+import { makeAsset } from "@/lib/testing/builders";
+import { AlertManager } from "./alert.manager";
+import { WebhookDispatcher } from "./webhook.dispatcher";
+
+class MemoryRuleStore implements IAlertRuleStore {
+  private rules = new Map<string, AlertRule>();
+  list = async () => Array.from(this.rules.values()).map((r) => ({ ...r }));
+  get = async (id: string) => (this.rules.has(id) ? { ...this.rules.get(id)! } : null);
+  save = async (rule: AlertRule) => void this.rules.set(rule.id, { ...rule });
+  delete = async (id: string) => this.rules.delete(id);
+}
+
+const noDeliveryLog: IWebhookDeliveryStore = {
+  append: async () => undefined,
+  query: async () => [],
+};
+
+/** Records events instead of POSTing them. */
+class RecordingDispatcher extends WebhookDispatcher {
+  public events: AlertEvent[] = [];
+  constructor() {
+    super({
+      timeoutMs: 1000,
+      retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, jitter: 0 },
+    });
+  }
+
+  public async deliver(
+    url: string,
+    _secret: string,
+    event: AlertEvent
+  ): Promise<WebhookDelivery> {
+    this.events.push(event);
+    const now = Date.now();
+    return {
+      id: event.id,
+      eventId: event.id,
+      ruleId: event.ruleId,
+      url,
+      status: "delivered",
+      attempts: 1,
+      startedAt: now,
+      completedAt: now,
+    };
+  }
+}
+
+describe("AlertManager", () => {
+  const setup = async () => {
+    const dispatcher = new RecordingDispatcher();
+    const manager = new AlertManager(new MemoryRuleStore(), noDeliveryLog, dispatcher, 1000);
+    const rule = await manager.createRule({
+      assetId: "USD_EGP",
+      webhookUrl: "https://hooks.example.com/fx",
+      condition: {
+        kind: "threshold",
+        rateType: "parallel_market",
+        side: "selling",
+        comparison: "above",
+        value: 52,
+      },
+    });
+    const evaluateAt = (now: number, selling: number) =>
+      manager.evaluate(
+        { USD_EGP: makeAsset("USD_EGP", "A", "parallel_market", selling - 1, selling) },
+        now
+      );
+    return { manager, dispatcher, rule, evaluateAt };
+  };
+
+  it("fires when the condition starts to hold, not while it keeps holding", async () => {
+    const { dispatcher, evaluateAt } = await setup();
+    await evaluateAt(0, 53);
+    await evaluateAt(10, 54);
+    expect(dispatcher.events.map((e) => e.triggeredAt)).toEqual([0]);
+  });
+
+  it("fires after the cooldown for a condition that began holding during it", async () => {
+    const { manager, dispatcher, rule, evaluateAt } = await setup();
+    await evaluateAt(0, 53);
+    await evaluateAt(100, 51);
+    await evaluateAt(200, 53); // Holds again, but within the cooldown.
+    expect(dispatcher.events).toHaveLength(1);
+    expect((await manager.getRule(rule.id))?.active).toBe(false);
+
+    await evaluateAt(1100, 53);
+    await evaluateAt(1200, 53);
+    expect(dispatcher.events.map((e) => e.triggeredAt)).toEqual([0, 1100]);
+    expect(await manager.getRule(rule.id)).toMatchObject({ active: true, lastTriggeredAt: 1100 });
+  });
+});
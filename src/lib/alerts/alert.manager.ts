@@ -0,0 +1,193 @@
+import { randomBytes, randomUUID } from "crypto";
+import {
+  AlertEvent,
+  AlertRule,
+  AssetIdentifier,
+  StandardizedAsset,
+  WebhookDelivery,
+} from "@/lib/core/data-contracts";
+import { IAlertRuleStore } from "@/lib/storage/alert-rule.store";
+import {
+  DeliveryQuery,
+  IWebhookDeliveryStore,
+} from "@/lib/storage/webhook-delivery.store";
+import { Logger } from "@/lib/utils/logger";
+import {
+  conditionHolds,
+  describeCondition,
+  observeCondition,
+} from "./alert.evaluator";
+import { AlertRuleInput } from "./alert-rule.validator";
+import { WebhookDispatcher } from "./webhook.dispatcher";
+
+/** A rule as the API shows it: the webhook secret never leaves the server. */
+export type PublicAlertRule = Omit<AlertRule, "secret">;
+
+export const toPublicRule = ({ secret: _secret, ...rule }: AlertRule): PublicAlertRule =>
+  rule;
+
+/**
+ * Owns alert rules: CRUD, evaluation against merged snapshots, and webhook
+ * delivery. Evaluations run one at a time, in snapshot order, so a rule's
+ * `active` flag always reflects the latest snapshot.
+ */
+export class AlertManager {
+  private logger = new Logger("AlertManager");
+  private evaluation: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly rules: IAlertRuleStore,
+    private readonly deliveries: IWebhookDeliveryStore,
+    private readonly dispatcher: WebhookDispatcher,
+    private readonly defaultCooldownMs: number
+  ) {}
+
+  public listRules = (): Promise<AlertRule[]> => this.rules.list();
+
+  public getRule = (id: string): Promise<AlertRule | null> => this.rules.get(id);
+
+  /** Assets that enabled rules watch, so callers only prepare those. */
+  public async watchedAssets(): Promise<AssetIdentifier[]> {
+    const rules = await this.rules.list();
+    return Array.from(new Set(rules.filter((r) => r.enabled).map((r) => r.assetId)));
+  }
+
+  /** Expects input that passed `validateAlertRuleInput` without `partial`. */
+  public async createRule(input: AlertRuleInput): Promise<AlertRule> {
+    const now = Date.now();
+    const rule: AlertRule = {
+      id: randomUUID(),
+      name: input.name ?? describeCondition(input.assetId!, input.condition!),
+      assetId: input.assetId!,
+      condition: input.condition!,
+      webhookUrl: input.webhookUrl!,
+      secret: input.secret ?? randomBytes(32).toString("hex"),
+      enabled: input.enabled ?? true,
+      cooldownMs: input.cooldownMs ?? this.defaultCooldownMs,
+      createdAt: now,
+      updatedAt: now,
+      active: false,
+    };
+    await this.rules.save(rule);
+    this.logger.info(`Created alert rule ${rule.id}: ${rule.name}`);
+    return rule;
+  }
+
+  /** Returns null when no rule has that ID. A new condition re-arms the rule. */
+  public async updateRule(
+    id: string,
+    input: AlertRuleInput
+  ): Promise<AlertRule | null> {
+    const existing = await this.rules.get(id);
+    if (!existing) return null;
+    const rule: AlertRule = {
+      ...existing,
+      ...input,
+      updatedAt: Date.now(),
+      ...(input.condition && { active: false }),
+    };
+    await this.rules.save(rule);
+    return rule;
+  }
+
+  public deleteRule = (id: string): Promise<boolean> => this.rules.delete(id);
+
+  public getDeliveries = (query: DeliveryQuery): Promise<WebhookDelivery[]> =>
+    this.deliveries.query(query);
+
+  /**
+   * Sends an `alert.test` event for a rule right away, whatever its condition,
+   * so receivers can check their signature handling.
+   */
+  public async sendTest(
+    id: string,
+    asset?: StandardizedAsset
+  ): Promise<WebhookDelivery | null> {
+    const rule = await this.rules.get(id);
+    if (!rule) return null;
+    const observed = asset ? observeCondition(rule.condition, asset) : undefined;
+    return this.dispatch(rule, {
+      id: randomUUID(),
+      type: "alert.test",
+      ruleId: rule.id,
+      ruleName: rule.name,
+      assetId: rule.assetId,
+      condition: rule.condition,
+      observed: observed ?? 0,
+      rates: asset?.rates ?? {},
+      triggeredAt: Date.now(),
+    });
+  }
+
+  /**
+   * Checks every enabled rule against a snapshot's assets, which must carry
+   * their analytics for change and premium conditions. Deliveries run in the
+   * background; the returned promise settles once rule state is saved.
+   */
+  public evaluate(
+    assets: Record<AssetIdentifier, StandardizedAsset>,
+    now = Date.now()
+  ): Promise<void> {
+    this.evaluation = this.evaluation
+      .then(() => this.evaluateRules(assets, now))
+      .catch((error) => {
+        this.logger.error("Alert evaluation failed.", {
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    return this.evaluation;
+  }
+
+  private async evaluateRules(
+    assets: Record<AssetIdentifier, StandardizedAsset>,
+    now: number
+  ): Promise<void> {
+    for (const rule of await this.rules.list()) {
+      const asset = assets[rule.assetId];
+      if (!rule.enabled || !asset) continue;
+      const observed = observeCondition(rule.condition, asset);
+      if (observed === undefined) continue;
+
+      const holds = conditionHolds(rule.condition, observed);
+      if (holds === rule.active) continue;
+
+      const coolingDown =
+        rule.lastTriggeredAt !== undefined &&
+        now - rule.lastTriggeredAt < rule.cooldownMs;
+      // Left inactive, so it fires on the first evaluation after the
+      // cooldown if the condition still holds then.
+      if (holds && coolingDown) continue;
+      // Re-read so an edit made through the API meanwhile isn't overwritten.
+      const latest = await this.rules.get(rule.id);
+      if (!latest) continue;
+      await this.rules.save({
+        ...latest,
+        active: holds,
+        ...(holds && { lastTriggeredAt: now }),
+      });
+      if (!holds) continue;
+
+      this.logger.info(`Alert triggered: ${rule.name}`, { observed });
+      void this.dispatch(rule, {
+        id: randomUUID(),
+        type: "alert.triggered",
+        ruleId: rule.id,
+        ruleName: rule.name,
+        assetId: rule.assetId,
+        condition: rule.condition,
+        observed,
+        rates: asset.rates,
+        triggeredAt: now,
+      });
+    }
+  }
+
+  private async dispatch(
+    rule: AlertRule,
+    event: AlertEvent
+  ): Promise<WebhookDelivery> {
+    const delivery = await this.dispatcher.deliver(rule.webhookUrl, rule.secret, event);
+    await this.deliveries.append(delivery).catch(() => undefined);
+    return delivery;
+  }
+}
@@ -0,0 +1,136 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { AlertEvent } from "@/lib/core/data-contracts";
+import { signPayload, WebhookDispatcher } from "./webhook.dispatcher";
+
+interface Received {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/** A local receiver answering each request with the next scripted status. */
+async function receiver(statuses: number[]) {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ path: req.url ?? "", headers: req.headers, body });
+      const status = statuses[Math.min(received.length, statuses.length) - 1] ?? 200;
+      if (status >= 300 && status < 400) res.setHeader("Location", "/redirected");
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+const event: AlertEvent = {
+  id: "evt-1",
+  type: "alert.triggered",
+  ruleId: "rule-1",
+  ruleName: "USD above 50",
+  assetId: "USD_EGP",
+  condition: {
+    kind: "threshold",
+    rateType: "official",
+    side: "buying",
+    comparison: "above",
+    value: 50,
+  },
+  observed: 51,
+  rates: { official: { buying: 51, selling: 52, midRate: 51.5, unit: "EGP" } },
+  triggeredAt: 1_000,
+};
+
+const dispatcher = () =>
+  new WebhookDispatcher({
+    timeoutMs: 1000,
+    retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1, jitter: 0 },
+  });
+
+describe("WebhookDispatcher", () => {
+  let server: Awaited<ReturnType<typeof receiver>> | undefined;
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("signs the body it sends with the rule's secret", async () => {
+    server = await receiver([200]);
+    await dispatcher().deliver(server.url, "s3cret", event);
+
+    const [request] = server.received;
+    expect(JSON.parse(request.body)).toEqual(event);
+    expect(request.headers["x-alert-event-id"]).toBe("evt-1");
+    const match = /^t=(\d+),v1=([0-9a-f]+)$/.exec(String(request.headers["x-alert-signature"]));
+    expect(match).not.toBeNull();
+    expect(match![2]).toBe(signPayload("s3cret", Number(match![1]), request.body));
+  });
+
+  it("retries 5xx responses and records the delivery once it succeeds", async () => {
+    server = await receiver([500, 500, 200]);
+    const delivery = await dispatcher().deliver(server.url, "s3cret", event);
+
+    expect(server.received).toHaveLength(3);
+    expect(delivery).toMatchObject({
+      eventId: "evt-1",
+      ruleId: "rule-1",
+      url: server.url,
+      status: "delivered",
+      attempts: 3,
+      responseStatus: 200,
+    });
+    expect(delivery.error).toBeUndefined();
+  });
+
+  it("gives up after the last attempt, keeping the final status", async () => {
+    server = await receiver([429, 503]);
+    const delivery = await dispatcher().deliver(server.url, "s3cret", event);
+
+    expect(server.received).toHaveLength(3);
+    expect(delivery).toMatchObject({ status: "failed", attempts: 3, responseStatus: 503 });
+  });
+
+  it("does not retry other 4xx responses", async () => {
+    server = await receiver([400]);
+    const delivery = await dispatcher().deliver(server.url, "s3cret", event);
+
+    expect(server.received).toHaveLength(1);
+    expect(delivery).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      responseStatus: 400,
+      error: "HTTP status 400",
+    });
+  });
+
+  it("does not follow redirects", async () => {
+    server = await receiver([302]);
+    const delivery = await dispatcher().deliver(server.url, "s3cret", event);
+
+    expect(server.received.map((r) => r.path)).toEqual(["/hook"]);
+    expect(delivery).toMatchObject({ status: "failed", responseStatus: 302 });
+  });
+
+  it("retries when the receiver cannot be reached", async () => {
+    server = await receiver([]);
+    const { url } = server;
+    await server.close();
+    server = undefined;
+
+    const delivery = await dispatcher().deliver(url, "s3cret", event);
+    expect(delivery).toMatchObject({ status: "failed", attempts: 3 });
+    expect(delivery.responseStatus).toBeUndefined();
+  });
+});
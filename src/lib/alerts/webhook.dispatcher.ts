@@ -0,0 +1,134 @@
+import { createHmac, randomUUID } from "crypto";
+import { AlertEvent, WebhookDelivery } from "@/lib/core/data-contracts";
+import { Logger } from "@/lib/utils/logger";
+import { retryWithBackoff, RetryOptions } from "@/lib/utils/retry";
+
+export interface WebhookDeliveryOptions {
+  /** Per attempt. */
+  timeoutMs: number;
+  retry: RetryOptions;
+}
+
+/** Header carrying `t=<unix ms>,v1=<hex HMAC-SHA256>`. */
+export const SIGNATURE_HEADER = "X-Alert-Signature";
+
+/**
+ * Signs `${timestamp}.${body}` with the rule's secret. Receivers recompute it
+ * over the raw request body and the `t` value from the header, compare in
+ * constant time, and reject timestamps too far in the past to stop replays.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** A failure worth another attempt: no answer, a timeout, 429 or a 5xx. */
+class RetryableDeliveryError extends Error {
+  constructor(message: string, readonly responseStatus?: number) {
+    super(message);
+  }
+}
+
+/** POSTs signed alert events, retrying transient failures with backoff. */
+export class WebhookDispatcher {
+  private logger = new Logger("WebhookDispatcher");
+
+  constructor(private readonly options: WebhookDeliveryOptions) {}
+
+  /** Never throws; the outcome is in the returned delivery record. */
+  public async deliver(
+    url: string,
+    secret: string,
+    event: AlertEvent
+  ): Promise<WebhookDelivery> {
+    const body = JSON.stringify(event);
+    const startedAt = Date.now();
+    let attempts = 0;
+    let responseStatus: number | undefined;
+
+    const record = (
+      status: WebhookDelivery["status"],
+      error?: string
+    ): WebhookDelivery => ({
+      id: randomUUID(),
+      eventId: event.id,
+      ruleId: event.ruleId,
+      url,
+      status,
+      attempts,
+      ...(responseStatus !== undefined && { responseStatus }),
+      ...(error && { error }),
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    try {
+      await retryWithBackoff(
+        async (attempt) => {
+          attempts = attempt;
+          responseStatus = await this.post(url, secret, event, body);
+        },
+        this.options.retry,
+        (error, attempt, delayMs) =>
+          this.logger.warn(
+            `Webhook attempt ${attempt} for rule ${event.ruleId} failed; retrying in ${delayMs}ms`,
+            { error: error instanceof Error ? error.message : error }
+          )
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      if (error instanceof RetryableDeliveryError) {
+        responseStatus = error.responseStatus;
+      }
+      this.logger.error(`Webhook delivery for rule ${event.ruleId} failed`, {
+        url,
+        attempts,
+        error: message,
+      });
+      return record("failed", message);
+    }
+
+    if (responseStatus !== undefined && responseStatus >= 300) {
+      // A 4xx other than 429 means the receiver rejected it; retrying won't help.
+      return record("failed", `HTTP status ${responseStatus}`);
+    }
+    return record("delivered");
+  }
+
+  /** Resolves with the status of a response that shouldn't be retried. */
+  private async post(
+    url: string,
+    secret: string,
+    event: AlertEvent,
+    body: string
+  ): Promise<number> {
+    const timestamp = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "currency-data-pipeline-webhooks",
+          "X-Alert-Event-Id": event.id,
+          [SIGNATURE_HEADER]: `t=${timestamp},v1=${signPayload(secret, timestamp, body)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+        redirect: "manual",
+      });
+    } catch (error) {
+      throw new RetryableDeliveryError(
+        error instanceof Error ? error.message : "Request failed"
+      );
+    }
+    // The body is never read; release the connection.
+    await response.body?.cancel().catch(() => undefined);
+    if (response.status === 429 || response.status >= 500) {
+      throw new RetryableDeliveryError(
+        `HTTP status ${response.status}`,
+        response.status
+      );
+    }
+    return response.status;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { makeAsset } from "@/lib/testing/builders";
+import { computeAssetAnalytics, computeChange, computeParallelPremium } from "./asset.analytics";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+const egp = () => {
+  const asset = makeAsset("USD_EGP", "A", "official", 48, 50);
+  asset.rates.parallel_market = { buying: 59, selling: 61, midRate: 60, unit: "EGP" };
+  return asset;
+};
+
+describe("computeParallelPremium", () => {
+  it("compares the parallel mid rate with the official one", () => {
+    expect(computeParallelPremium(egp())).toBeCloseTo(22.449, 3);
+  });
+
+  it("is undefined without both rate types", () => {
+    expect(computeParallelPremium(makeAsset("USD_EGP", "A", "official", 48, 50))).toBeUndefined();
+  });
+});
+
+describe("computeChange", () => {
+  const history = [
+    { timestamp: NOW - 40 * HOUR_MS, value: 40 },
+    { timestamp: NOW - 30 * HOUR_MS, value: 45 },
+    { timestamp: NOW - 20 * HOUR_MS, value: 48 },
+  ];
+
+  it("compares with the latest point at least the window old", () => {
+    expect(computeChange(49.5, history, "24h", NOW)).toEqual({
+      absolute: 4.5,
+      percent: 10,
+      since: NOW - 30 * HOUR_MS,
+    });
+  });
+
+  it("ignores points older than 1.5x the window", () => {
+    expect(computeChange(49.5, history.slice(0, 1), "24h", NOW)).toBeUndefined();
+  });
+});
+
+describe("computeAssetAnalytics", () => {
+  it("reports the premium and the spread of every rate type", () => {
+    const analytics = computeAssetAnalytics(egp(), {}, NOW);
+    expect(analytics.parallelPremiumPercent).toBeCloseTo(22.449, 3);
+    expect(analytics.spreads.official).toEqual({ absolute: 2, percent: (2 / 49) * 100 });
+    expect(analytics.spreads.parallel_market?.absolute).toBe(2);
+    expect(analytics.spreads.parallel_market?.percent).toBeCloseTo(3.333, 3);
+  });
+
+  it("computes change windows from the stored mid-rate history", () => {
+    const analytics = computeAssetAnalytics(
+      egp(),
+      {
+        official: [
+          { timestamp: NOW - 8 * 24 * HOUR_MS, value: 40 },
+          { timestamp: NOW - 25 * HOUR_MS, value: 50 },
+        ],
+      },
+      NOW
+    );
+    expect(analytics.changes.official?.["24h"]).toMatchObject({ absolute: -1, percent: -2 });
+    expect(analytics.changes.official?.["7d"]).toMatchObject({ absolute: 9 });
+    expect(analytics.changes.official?.["30d"]).toBeUndefined();
+    expect(analytics.changes.parallel_market).toBeUndefined();
+  });
+
+  it("reports no changes without stored history, whatever the source charts", () => {
+    const asset = makeAsset("USD_EGP", "A", "parallel_market", 50, 52);
+    asset.historicalData = [{ timestamp: NOW - 24 * HOUR_MS, value: 40 }];
+    expect(computeAssetAnalytics(asset, {}, NOW).changes).toEqual({});
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  AssetAnalytics,
+  ChangeWindow,
+  CHANGE_WINDOWS,
+  PriceChange,
+  RateSpread,
+  RateType,
+  StandardizedAsset,
+  StandardizedHistoricalPoint,
+  StandardizedRate,
+} from "@/lib/core/data-contracts";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CHANGE_WINDOW_MS: Record<ChangeWindow, number> = {
+  "24h": 24 * HOUR_MS,
+  "7d": 7 * 24 * HOUR_MS,
+  "30d": 30 * 24 * HOUR_MS,
+};
+
+/** Mid-rate series per rate type, oldest first, used for change figures. */
+export type RateHistory = Partial<Record<RateType, StandardizedHistoricalPoint[]>>;
+
+/** Premium of the parallel-market mid rate over the official one, in percent. */
+export function computeParallelPremium(
+  asset: StandardizedAsset
+): number | undefined {
+  const official = asset.rates.official;
+  const parallel = asset.rates.parallel_market;
+  if (!official || !parallel || official.midRate === 0) return undefined;
+  return ((parallel.midRate - official.midRate) / official.midRate) * 100;
+}
+
+export function computeSpread(rate: StandardizedRate): RateSpread {
+  const absolute = rate.selling - rate.buying;
+  return {
+    absolute,
+    percent: rate.midRate === 0 ? 0 : (absolute / rate.midRate) * 100,
+  };
+}
+
+/**
+ * Compares `current` with the latest point at least `window` old. That point
+ * must not be older than 1.5x the window, so a 24h change is never computed
+ * against a week-old observation.
+ */
+export function computeChange(
+  current: number,
+  history: StandardizedHistoricalPoint[],
+  window: ChangeWindow,
+  now: number
+): PriceChange | undefined {
+  const windowMs = CHANGE_WINDOW_MS[window];
+  const newest = now - windowMs;
+  const oldest = now - windowMs * 1.5;
+  let reference: StandardizedHistoricalPoint | undefined;
+  for (const point of history) {
+    if (point.timestamp > newest) break;
+    if (point.timestamp >= oldest) reference = point;
+  }
+  if (!reference) return undefined;
+  const absolute = current - reference.value;
+  return {
+    absolute,
+    percent: reference.value === 0 ? 0 : (absolute / reference.value) * 100,
+    since: reference.timestamp,
+  };
+}
+
+/**
+ * Computes the analytics block for one merged asset. Changes come from the
+ * stored mid-rate `history` only: an asset's own `historicalData` is whatever
+ * its source charts (Sarf's is buying prices), so it isn't comparable.
+ */
+export function computeAssetAnalytics(
+  asset: StandardizedAsset,
+  history: RateHistory = {},
+  now = Date.now()
+): AssetAnalytics {
+  const analytics: AssetAnalytics = { spreads: {}, changes: {} };
+  const premium = computeParallelPremium(asset);
+  if (premium !== undefined) analytics.parallelPremiumPercent = premium;
+
+  for (const rateType of Object.keys(asset.rates) as RateType[]) {
+    const rate = asset.rates[rateType];
+    if (!rate) continue;
+    analytics.spreads[rateType] = computeSpread(rate);
+
+    const series = history[rateType] ?? [];
+    const changes: Partial<Record<ChangeWindow, PriceChange>> = {};
+    for (const window of CHANGE_WINDOWS) {
+      const change = computeChange(rate.midRate, series, window, now);
+      if (change) changes[window] = change;
+    }
+    if (Object.keys(changes).length > 0) analytics.changes[rateType] = changes;
+  }
+  return analytics;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { HistoricalRateRecord } from "@/lib/core/data-contracts";
+import { aggregateCandles } from "./candle.aggregator";
+
+const HOUR_MS = 60 * 60 * 1000;
+const record = (timestamp: number, buying: number): HistoricalRateRecord => ({
+  assetId: "USD_EGP",
+  rateType: "parallel_market",
+  source: "Sarf-EGP-API",
+  timestamp,
+  buying,
+  selling: buying + 0.5,
+  midRate: buying + 0.25,
+  unit: "EGP",
+});
+
+describe("aggregateCandles", () => {
+  it("rolls observations into OHLC candles, in time order", () => {
+    const candles = aggregateCandles(
+      [record(30 * 60000, 51), record(0, 50), record(10 * 60000, 53), record(20 * 60000, 49)],
+      { interval: "1h", side: "buying", gapFill: "mark_missing" }
+    );
+    expect(candles).toEqual([
+      { timestamp: 0, status: "observed", open: 50, high: 53, low: 49, close: 51, count: 4 },
+    ]);
+  });
+
+  it("marks or fills the intervals without observations", () => {
+    const records = [record(0, 50), record(2 * HOUR_MS, 52)];
+    const options = { interval: "1h", side: "buying" } as const;
+    expect(aggregateCandles(records, { ...options, gapFill: "mark_missing" })[1]).toMatchObject({
+      status: "missing",
+      open: null,
+    });
+    expect(aggregateCandles(records, { ...options, gapFill: "forward_fill" })[1]).toMatchObject({
+      status: "filled",
+      open: 50,
+      close: 50,
+      count: 0,
+    });
+  });
+
+  it("handles buckets far larger than the engine's argument limit", () => {
+    const records = Array.from({ length: 300_000 }, (_, i) => record(i, 50 + (i % 7)));
+    const [candle] = aggregateCandles(records, {
+      interval: "1w",
+      side: "buying",
+      gapFill: "mark_missing",
+    });
+    expect(candle).toMatchObject({ high: 56, low: 50, count: 300_000 });
+  });
+});
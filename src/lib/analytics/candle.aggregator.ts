@@ -0,0 +1,127 @@
+import {
+  CandleInterval,
+  GapFillPolicy,
+  HistoricalRateRecord,
+  OHLCCandle,
+  PriceSide,
+} from "@/lib/core/data-contracts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+// The epoch fell on a Thursday; weeks start on the following Monday (UTC).
+const WEEK_ORIGIN_MS = 4 * DAY_MS;
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  "1h": HOUR_MS,
+  "1d": DAY_MS,
+  "1w": WEEK_MS,
+};
+
+/** Hard cap on buckets per series, so an open-ended range can't blow up memory. */
+export const MAX_CANDLES = 5000;
+
+export interface CandleOptions {
+  interval: CandleInterval;
+  side: PriceSide;
+  gapFill: GapFillPolicy;
+  from?: number;
+  to?: number;
+}
+
+export function bucketStart(timestamp: number, interval: CandleInterval): number {
+  const size = INTERVAL_MS[interval];
+  const origin = interval === "1w" ? WEEK_ORIGIN_MS : 0;
+  return Math.floor((timestamp - origin) / size) * size + origin;
+}
+
+/**
+ * Rolls raw observations into contiguous OHLC candles. The input should hold a
+ * single source and rate type; records are sorted here, so callers need not
+ * pre-sort.
+ * Every interval between the first and last bucket is present in the output.
+ * @throws RangeError if the range spans more than `MAX_CANDLES` intervals.
+ */
+export function aggregateCandles(
+  records: HistoricalRateRecord[],
+  options: CandleOptions
+): OHLCCandle[] {
+  const { interval, side, gapFill } = options;
+  const sorted = [...records].sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0 && (options.from === undefined || options.to === undefined)) {
+    return [];
+  }
+
+  const size = INTERVAL_MS[interval];
+  const first = bucketStart(options.from ?? sorted[0].timestamp, interval);
+  const last = bucketStart(
+    options.to ?? sorted[sorted.length - 1].timestamp,
+    interval
+  );
+  const bucketCount = (last - first) / size + 1;
+  if (bucketCount > MAX_CANDLES) {
+    throw new RangeError(
+      `Range spans ${bucketCount} ${interval} candles; the limit is ${MAX_CANDLES}.`
+    );
+  }
+
+  const candles: OHLCCandle[] = [];
+  let cursor = 0;
+  let previousClose: number | null = null;
+
+  // Observations before the range only seed the forward-fill value.
+  while (cursor < sorted.length && sorted[cursor].timestamp < first) {
+    previousClose = sorted[cursor][side];
+    cursor++;
+  }
+
+  for (let start = first; start <= last; start += size) {
+    const end = start + size;
+    let observed: Exclude<OHLCCandle, { status: "missing" }> | null = null;
+    while (cursor < sorted.length && sorted[cursor].timestamp < end) {
+      const value = sorted[cursor][side];
+      if (!observed) {
+        observed = {
+          timestamp: start,
+          status: "observed",
+          open: value,
+          high: value,
+          low: value,
+          close: value,
+          count: 0,
+        };
+      }
+      observed.high = Math.max(observed.high, value);
+      observed.low = Math.min(observed.low, value);
+      observed.close = value;
+      observed.count++;
+      cursor++;
+    }
+
+    if (observed) {
+      candles.push(observed);
+      previousClose = observed.close;
+    } else if (gapFill === "forward_fill" && previousClose !== null) {
+      candles.push({
+        timestamp: start,
+        status: "filled",
+        open: previousClose,
+        high: previousClose,
+        low: previousClose,
+        close: previousClose,
+        count: 0,
+      });
+    } else {
+      candles.push({
+        timestamp: start,
+        status: "missing",
+        open: null,
+        high: null,
+        low: null,
+        close: null,
+        count: 0,
+      });
+    }
+  }
+  return candles;
+}
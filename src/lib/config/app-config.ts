@@ -1,26 +1,347 @@
+import {
+  AssetIdentifier,
+  MergePolicy,
+  RateType,
+} from "@/lib/core/data-contracts";
+import { MissedRunPolicy } from "@/lib/scheduler/job.scheduler";
+import { MarketHours } from "@/lib/scheduler/market-hours";
+import { WebhookDeliveryOptions } from "@/lib/alerts/webhook.dispatcher";
+import { RecordingMode } from "@/lib/http/recording-http.client";
+import { CircuitBreakerOptions } from "@/lib/utils/circuit-breaker";
+import { RetryOptions } from "@/lib/utils/retry";
+import { loadAppConfig, LoadedConfig } from "./config.loader";
+
+/**
+ * Merge policies are resolved most-specific first: by asset, then by rate
+ * type, then the default.
+ */
+export interface MergeConfig {
+  default: MergePolicy;
+  byRateType?: Partial<Record<RateType, MergePolicy>>;
+  byAsset?: Record<AssetIdentifier, MergePolicy>;
+}
+
+/** Sources disagree when their mid rates spread by more than this percentage. */
+export interface ConsensusConfig {
+  divergenceThresholdPercent: number;
+  byAsset?: Record<AssetIdentifier, number>;
+}
+
+export interface ConversionConfig {
+  /** Preferred intermediates, best first, when triangulating a cross rate. */
+  pivotCurrencies: string[];
+}
+
+/** How data sources retry failed fetches and when they stop trying. */
+export interface ResilienceConfig {
+  retry: RetryOptions;
+  breaker: CircuitBreakerOptions;
+}
+
+/**
+ * Per-source snapshot caching. A source's data is fresh for its TTL (its
+ * `refreshIntervalMs`, else `defaultTtlMs`); after that it is still served
+ * (marked stale) while a background refresh runs, until it is older than
+ * `maxStaleMs`.
+ */
+export interface CacheConfig {
+  defaultTtlMs: number;
+  maxStaleMs: number;
+  /** How long one instance may hold a source's refresh lock. */
+  lockTtlMs: number;
+}
+
+/** Where cached source snapshots live. Use `redis` to share them across instances. */
+export type CacheStoreConfig =
+  | { driver: "memory" }
+  | {
+      driver: "redis";
+      url: string;
+      keyPrefix: string;
+      connectTimeoutMs: number;
+      commandTimeoutMs: number;
+    };
+
+/**
+ * Settings for one data source, keyed by source name in `AppConfig.sources`.
+ * The URL and timeouts override the ones the source ships with.
+ */
+export interface SourceConfig {
+  enabled: boolean;
+  /** Lower goes first; earlier sources win ties when snapshots are merged. */
+  priority: number;
+  url?: string;
+  timeoutMs?: number;
+  healthCheckTimeoutMs?: number;
+  /** How often the scheduler refreshes the source; also its cache TTL. */
+  refreshIntervalMs?: number;
+  missedRunPolicy?: MissedRunPolicy;
+  marketHours?: MarketHours;
+  /** Freshness SLA for this source's data; see `FreshnessConfig`. */
+  maxAgeMs?: number;
+  /**
+   * How long the source may keep repeating the same values before its data
+   * counts as stale, however recent its upstream timestamp. Unset for sources
+   * whose prices legitimately stand still, such as pegged official rates.
+   */
+  maxUnchangedMs?: number;
+}
+
+/**
+ * Background refreshing. When enabled, sources are fetched only on their
+ * schedule and API requests only read the latest cached snapshot.
+ */
+export interface SchedulerConfig {
+  enabled: boolean;
+  missedRunPolicy: MissedRunPolicy;
+}
+
+/**
+ * Capturing upstream traffic as fixtures; see `RecordingHttpClient`.
+ * `record` saves every live response under `recordingsDir` and `replay`
+ * answers only from there. `demo` mode ignores this and uses the fixtures
+ * bundled with each source.
+ */
+export interface HttpConfig {
+  recording: "off" | RecordingMode;
+  recordingsDir: string;
+}
+
+/**
+ * Access to the `/api/v1/admin` endpoints, by bearer token. Without a token
+ * they are open outside production and disabled in it.
+ */
+export interface AdminConfig {
+  token?: string;
+}
+
+/** The `/api/v1/stream` Server-Sent Events endpoint. */
+export interface StreamingConfig {
+  /** How often an idle stream gets a comment line to keep proxies from closing it. */
+  heartbeatIntervalMs: number;
+  /** Reconnect delay suggested to clients. */
+  retryMs: number;
+  /** How many recent events a reconnecting client can resume from. */
+  replayBufferSize: number;
+}
+
+/** Screening of each source's adapted rates; see `RateValidator`. */
+export interface ValidationConfig {
+  /** Largest accepted move of a mid rate between fetches, in percent. */
+  maxJumpPercent: number;
+  byAsset?: Record<AssetIdentifier, number>;
+  /** Consecutive fetches a larger move must repeat on before it is accepted. */
+  outlierConfirmations: number;
+}
+
+/**
+ * How old an asset's data may be, by its upstream observation time, before
+ * it is flagged stale. Resolved most-specific first: by asset, then the
+ * source's `maxAgeMs`, then the default.
+ */
+export interface FreshnessConfig {
+  defaultMaxAgeMs: number;
+  byAsset?: Record<AssetIdentifier, number>;
+}
+
+/** Where log entries go besides the in-memory buffer behind `/api/v1/logs`. */
+export interface LoggingConfig {
+  /** `json` writes one object per line, for log collectors. */
+  console: { enabled: boolean; format: "json" | "pretty" };
+  /** NDJSON file, rotated by size. */
+  file?: { path: string; maxBytes: number; maxFiles: number };
+  /** Entries kept in memory for querying. */
+  memoryCapacity: number;
+}
+
+export interface AlertsConfig {
+  rulesPath: string;
+  /** NDJSON log of every webhook delivery. */
+  deliveriesPath: string;
+  delivery: WebhookDeliveryOptions;
+  /** Applied to rules created without their own `cooldownMs`. */
+  defaultCooldownMs: number;
+  /** Accept webhooks on loopback, link-local and private addresses. */
+  allowPrivateWebhooks: boolean;
+}
+
+/**
+ * `demo` serves every enabled source from its bundled fixtures instead of
+ * the network; the other modes fetch live.
+ */
+export type AppMode = "demo" | "production" | "hybrid";
+
 export interface AppConfig {
-  mode: "demo" | "production" | "hybrid";
-  cacheTimeoutMs: number;
+  mode: AppMode;
+  cache: CacheConfig;
+  cacheStore: CacheStoreConfig;
+  /** Overall time budget for one round of source fetches. */
+  fetchDeadlineMs: number;
   healthCheckIntervalMs: number;
+  sources: Record<string, SourceConfig>;
+  http: HttpConfig;
+  scheduler: SchedulerConfig;
+  streaming: StreamingConfig;
+  /** The starting level; it can be changed at runtime through the admin API. */
   logLevel: "debug" | "info" | "warn" | "error";
+  logging: LoggingConfig;
+  historyStorePath: string;
+  /** Stored history older than this is dropped and compacted out of the file. */
+  historyRetentionMs: number;
+  alerts: AlertsConfig;
+  merge: MergeConfig;
+  consensus: ConsensusConfig;
+  conversion: ConversionConfig;
+  resilience: ResilienceConfig;
+  validation: ValidationConfig;
+  freshness: FreshnessConfig;
+  admin: AdminConfig;
 }
 
-const configs: Record<string, AppConfig> = {
+const defaultAlertsConfig: AlertsConfig = {
+  rulesPath: ".data/alert-rules.json",
+  deliveriesPath: ".data/alert-deliveries.ndjson",
+  delivery: {
+    timeoutMs: 5000,
+    retry: { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 30000, jitter: 0.2 },
+  },
+  defaultCooldownMs: 3600000,
+  allowPrivateWebhooks: false,
+};
+
+const defaultValidationConfig: ValidationConfig = {
+  maxJumpPercent: 20,
+  outlierConfirmations: 3,
+};
+
+const DAY_MS = 86400000;
+
+const defaultFreshnessConfig: FreshnessConfig = {
+  defaultMaxAgeMs: DAY_MS,
+};
+
+const defaultMergeConfig: MergeConfig = {
+  default: { strategy: "freshest" },
+};
+
+const defaultConsensusConfig: ConsensusConfig = {
+  divergenceThresholdPercent: 2,
+};
+
+// No commodity polling on weekends. Both central banks publish on their
+// working days, Sunday to Thursday, so their rates can be several days old
+// by the end of a weekend or holiday without anything being wrong.
+const commodityMarketHours: MarketHours = {
+  timeZone: "America/New_York",
+  days: [1, 2, 3, 4, 5],
+};
+
+const defaultSources = (commodityRefreshMs: number): Record<string, SourceConfig> => ({
+  "Sarf-EGP-API": { enabled: true, priority: 10, maxUnchangedMs: 2 * DAY_MS },
+  "Forex-Algerie-Web": { enabled: true, priority: 20, maxUnchangedMs: 2 * DAY_MS },
+  "CBE-Official-Web": {
+    enabled: true,
+    priority: 30,
+    refreshIntervalMs: 3600000,
+    maxAgeMs: 4 * DAY_MS,
+    marketHours: { timeZone: "Africa/Cairo", days: [0, 1, 2, 3, 4], open: "08:00", close: "18:00" },
+  },
+  "Bank-of-Algeria-Web": {
+    enabled: true,
+    priority: 40,
+    refreshIntervalMs: 3600000,
+    maxAgeMs: 4 * DAY_MS,
+    marketHours: { timeZone: "Africa/Algiers", days: [0, 1, 2, 3, 4], open: "08:00", close: "18:00" },
+  },
+  "Mock-Commodities-API": {
+    enabled: true,
+    priority: 50,
+    refreshIntervalMs: commodityRefreshMs,
+    marketHours: commodityMarketHours,
+    maxAgeMs: 3 * DAY_MS,
+  },
+});
+
+/**
+ * Built-in defaults per `NODE_ENV`. The config file and environment are
+ * layered over these; see `loadAppConfig`.
+ */
+export const configProfiles: Record<string, AppConfig> = {
   development: {
     mode: "hybrid",
-    cacheTimeoutMs: 60000,
+    cache: {
+      defaultTtlMs: 60000,
+      maxStaleMs: 3600000,
+      lockTtlMs: 15000,
+    },
+    cacheStore: { driver: "memory" },
+    fetchDeadlineMs: 6000,
     healthCheckIntervalMs: 30000,
+    sources: defaultSources(15000),
+    http: { recording: "off", recordingsDir: ".data/recordings" },
+    scheduler: { enabled: true, missedRunPolicy: "run_once" },
+    streaming: { heartbeatIntervalMs: 15000, retryMs: 5000, replayBufferSize: 500 },
     logLevel: "debug",
+    logging: { console: { enabled: true, format: "pretty" }, memoryCapacity: 2000 },
+    resilience: {
+      retry: { maxAttempts: 2, baseDelayMs: 250, maxDelayMs: 2000, jitter: 0.2 },
+      breaker: { failureThreshold: 3, resetTimeoutMs: 30000 },
+    },
+    historyStorePath: ".data/history.ndjson",
+    historyRetentionMs: 365 * DAY_MS,
+    alerts: defaultAlertsConfig,
+    merge: defaultMergeConfig,
+    consensus: defaultConsensusConfig,
+    conversion: { pivotCurrencies: ["USD", "EUR"] },
+    validation: defaultValidationConfig,
+    freshness: defaultFreshnessConfig,
+    admin: {},
   },
   production: {
     mode: "production",
-    cacheTimeoutMs: 300000,
+    cache: {
+      defaultTtlMs: 300000,
+      maxStaleMs: 86400000,
+      lockTtlMs: 30000,
+    },
+    cacheStore: { driver: "memory" },
+    fetchDeadlineMs: 10000,
     healthCheckIntervalMs: 120000,
+    sources: defaultSources(60000),
+    http: { recording: "off", recordingsDir: ".data/recordings" },
+    scheduler: { enabled: true, missedRunPolicy: "run_once" },
+    streaming: { heartbeatIntervalMs: 15000, retryMs: 5000, replayBufferSize: 500 },
     logLevel: "warn",
+    logging: { console: { enabled: true, format: "json" }, memoryCapacity: 2000 },
+    resilience: {
+      retry: { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 5000, jitter: 0.2 },
+      breaker: { failureThreshold: 5, resetTimeoutMs: 120000 },
+    },
+    historyStorePath: ".data/history.ndjson",
+    historyRetentionMs: 365 * DAY_MS,
+    alerts: defaultAlertsConfig,
+    merge: defaultMergeConfig,
+    consensus: defaultConsensusConfig,
+    conversion: { pivotCurrencies: ["USD", "EUR"] },
+    validation: defaultValidationConfig,
+    freshness: defaultFreshnessConfig,
+    admin: {},
   },
 };
 
+let loaded: LoadedConfig | null = null;
+
+/**
+ * The effective configuration, loaded and validated on first use. An
+ * invalid configuration throws a `ConfigValidationError` here, which stops
+ * the service from starting.
+ */
 export function getAppConfig(): AppConfig {
-  const env = process.env.NODE_ENV || "development";
-  return configs[env] || configs.development;
+  return getLoadedConfig().config;
+}
+
+/** The effective configuration along with the layers it was built from. */
+export function getLoadedConfig(): LoadedConfig {
+  loaded ??= loadAppConfig(configProfiles, process.env);
+  return loaded;
 }
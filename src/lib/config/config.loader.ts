@@ -0,0 +1,149 @@
+import fs from "fs";
+import path from "path";
+import { ConfigValidationError } from "@/lib/core/errors";
+import type { AppConfig } from "./app-config";
+import { appConfigSchema } from "./config.schema";
+
+export const DEFAULT_CONFIG_FILE = "config/app-config.json";
+const PATH_OVERRIDE_PREFIX = "APP_CONFIG__";
+
+export interface LoadedConfig {
+  config: AppConfig;
+  /** What each applied layer was, lowest precedence first. */
+  layers: string[];
+}
+
+type ConfigLayer = Record<string, unknown>;
+
+/** Environment variables with a fixed meaning, applied over the config file. */
+const NAMED_OVERRIDES: Record<string, (value: string) => ConfigLayer> = {
+  APP_MODE: (value) => ({ mode: value }),
+  LOG_LEVEL: (value) => ({ logLevel: value }),
+  LOG_FORMAT: (value) => ({ logging: { console: { format: value } } }),
+  LOG_FILE: (value) => ({ logging: { file: { path: value } } }),
+  REDIS_URL: (value) => ({ cacheStore: { driver: "redis", url: value } }),
+  FETCH_DEADLINE_MS: (value) => ({ fetchDeadlineMs: Number(value) }),
+  HISTORY_STORE_PATH: (value) => ({ historyStorePath: value }),
+  SCHEDULER_ENABLED: (value) => ({ scheduler: { enabled: value === "true" } }),
+  ADMIN_TOKEN: (value) => ({ admin: { token: value } }),
+  HTTP_RECORDING: (value) => ({ http: { recording: value } }),
+};
+
+/**
+ * Builds the configuration from layers, each deep-merged over the last:
+ *
+ * 1. the built-in profile for `NODE_ENV` (development when unknown);
+ * 2. the JSON file at `APP_CONFIG_FILE`, or `config/app-config.json` if it
+ *    exists;
+ * 3. `APP_CONFIG_JSON`, a JSON object in the environment;
+ * 4. the named variables in `NAMED_OVERRIDES`;
+ * 5. `APP_CONFIG__<key>__<key>...` variables, setting one path each. Values
+ *    are parsed as JSON when they can be, so `5000` and `false` aren't strings.
+ *
+ * Objects merge key by key; arrays and scalars replace. The result must pass
+ * `appConfigSchema`, or a `ConfigValidationError` lists every problem.
+ */
+export function loadAppConfig(
+  profiles: Record<string, AppConfig>,
+  env: NodeJS.ProcessEnv
+): LoadedConfig {
+  const profileName = env.NODE_ENV && profiles[env.NODE_ENV] ? env.NODE_ENV : "development";
+  const layers = [`profile:${profileName}`];
+  let merged: unknown = profiles[profileName];
+  const apply = (name: string, layer: unknown) => {
+    merged = deepMerge(merged, layer);
+    layers.push(name);
+  };
+
+  const file = env.APP_CONFIG_FILE ?? DEFAULT_CONFIG_FILE;
+  if (env.APP_CONFIG_FILE || fs.existsSync(file)) {
+    apply(`file:${file}`, readJson(file, () => fs.readFileSync(path.resolve(file), "utf8")));
+  }
+  if (env.APP_CONFIG_JSON) {
+    apply("env:APP_CONFIG_JSON", readJson("APP_CONFIG_JSON", () => env.APP_CONFIG_JSON!));
+  }
+  for (const [name, toLayer] of Object.entries(NAMED_OVERRIDES)) {
+    const value = env[name];
+    if (value !== undefined && value !== "") apply(`env:${name}`, toLayer(value));
+  }
+  for (const name of Object.keys(env).sort()) {
+    if (!name.startsWith(PATH_OVERRIDE_PREFIX)) continue;
+    const keys = name.slice(PATH_OVERRIDE_PREFIX.length).split("__");
+    if (keys.some((key) => key === "")) {
+      throw new ConfigValidationError(`Malformed override ${name}`, [name]);
+    }
+    apply(`env:${name}`, nest(keys, parseValue(env[name] ?? "")));
+  }
+
+  const result = appConfigSchema.safeParse(merged);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new ConfigValidationError(
+      `Invalid configuration (${issues.length} issues): ${issues.join("; ")}`,
+      issues
+    );
+  }
+  return { config: result.data, layers };
+}
+
+/** A copy safe to show: credentials in the Redis URL and the admin token are masked. */
+export function redactConfig(config: AppConfig): AppConfig {
+  const redacted: AppConfig = {
+    ...config,
+    admin: config.admin.token ? { token: "[redacted]" } : {},
+  };
+  if (config.cacheStore.driver === "redis") {
+    const url = new URL(config.cacheStore.url);
+    if (url.password) url.password = "redacted";
+    redacted.cacheStore = { ...config.cacheStore, url: url.toString() };
+  }
+  return redacted;
+}
+
+function readJson(label: string, read: () => string): unknown {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(read());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigValidationError(`Could not read config from ${label}: ${message}`, [
+      message,
+    ]);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigValidationError(`Config from ${label} is not a JSON object`, [
+      "(root): expected object",
+    ]);
+  }
+  return parsed;
+}
+
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function nest(keys: string[], value: unknown): ConfigLayer {
+  return keys.reduceRight<unknown>((inner, key) => ({ [key]: inner }), value) as ConfigLayer;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+  // A union member switched to another kind (e.g. `cacheStore.driver`) keeps
+  // none of the old member's settings.
+  if ("driver" in override && override.driver !== base.driver) return override;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? deepMerge(base[key], value) : value;
+  }
+  return merged;
+}
@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { RATE_TYPES, RateType } from "@/lib/core/data-contracts";
+import type { Weekday } from "@/lib/scheduler/market-hours";
+import { isValidTimeZone } from "@/lib/utils/zoned-time";
+import type { AppConfig } from "./app-config";
+
+const positiveMs = z.number().int().positive();
+const nonNegativeMs = z.number().int().nonnegative();
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "expected HH:MM");
+const rateType = z.enum(RATE_TYPES as [RateType, ...RateType[]]);
+const missedRunPolicy = z.enum(["skip", "run_once"]);
+
+const retrySchema = z
+  .object({
+    maxAttempts: z.number().int().min(1),
+    baseDelayMs: nonNegativeMs,
+    maxDelayMs: nonNegativeMs,
+    jitter: z.number().min(0).max(1),
+  })
+  .strict();
+
+const marketHoursSchema = z
+  .object({
+    timeZone: z.string().refine(isValidTimeZone, "unknown IANA time zone"),
+    days: z
+      .array(
+        z
+          .number()
+          .int()
+          .min(0)
+          .max(6)
+          .transform((day) => day as Weekday)
+      )
+      .min(1),
+    open: clockTime.optional(),
+    close: clockTime.optional(),
+  })
+  .strict();
+
+/** One entry of `sources`; also validates admin changes to a running source. */
+export const sourceConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    priority: z.number().int(),
+    url: z.string().url().optional(),
+    timeoutMs: positiveMs.optional(),
+    healthCheckTimeoutMs: positiveMs.optional(),
+    refreshIntervalMs: z.number().int().min(1000).optional(),
+    missedRunPolicy: missedRunPolicy.optional(),
+    marketHours: marketHoursSchema.optional(),
+    maxAgeMs: positiveMs.optional(),
+    maxUnchangedMs: positiveMs.optional(),
+  })
+  .strict();
+
+const mergePolicySchema = z
+  .object({
+    strategy: z.enum(["priority", "freshest", "median", "average"]),
+    sourcePriority: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const cacheStoreSchema = z.discriminatedUnion("driver", [
+  z.object({ driver: z.literal("memory") }).strict(),
+  z
+    .object({
+      driver: z.literal("redis"),
+      url: z.string().regex(/^rediss?:\/\//, "expected a redis:// URL"),
+      keyPrefix: z.string().default("currency-pipeline:"),
+      connectTimeoutMs: positiveMs.default(2000),
+      commandTimeoutMs: positiveMs.default(2000),
+    })
+    .strict(),
+]);
+
+export const appConfigSchema: z.ZodType<AppConfig, z.ZodTypeDef, unknown> = z
+  .object({
+    mode: z.enum(["demo", "production", "hybrid"]),
+    cache: z
+      .object({
+        defaultTtlMs: positiveMs,
+        maxStaleMs: positiveMs,
+        lockTtlMs: positiveMs,
+      })
+      .strict(),
+    cacheStore: cacheStoreSchema,
+    fetchDeadlineMs: positiveMs,
+    healthCheckIntervalMs: positiveMs,
+    sources: z.record(sourceConfigSchema),
+    http: z
+      .object({
+        recording: z.enum(["off", "record", "replay"]),
+        recordingsDir: z.string().min(1),
+      })
+      .strict(),
+    scheduler: z
+      .object({ enabled: z.boolean(), missedRunPolicy })
+      .strict(),
+    streaming: z
+      .object({
+        heartbeatIntervalMs: positiveMs,
+        retryMs: positiveMs,
+        replayBufferSize: z.number().int().nonnegative(),
+      })
+      .strict(),
+    logLevel: z.enum(["debug", "info", "warn", "error"]),
+    logging: z
+      .object({
+        console: z
+          .object({ enabled: z.boolean(), format: z.enum(["json", "pretty"]) })
+          .strict(),
+        file: z
+          .object({
+            path: z.string().min(1),
+            maxBytes: z.number().int().min(1024).default(10 * 1024 * 1024),
+            maxFiles: z.number().int().nonnegative().default(5),
+          })
+          .strict()
+          .optional(),
+        memoryCapacity: z.number().int().nonnegative(),
+      })
+      .strict(),
+    historyStorePath: z.string().min(1),
+    historyRetentionMs: positiveMs,
+    alerts: z
+      .object({
+        rulesPath: z.string().min(1),
+        deliveriesPath: z.string().min(1),
+        delivery: z.object({ timeoutMs: positiveMs, retry: retrySchema }).strict(),
+        defaultCooldownMs: nonNegativeMs,
+        allowPrivateWebhooks: z.boolean(),
+      })
+      .strict(),
+    merge: z
+      .object({
+        default: mergePolicySchema,
+        byRateType: z.record(rateType, mergePolicySchema).optional(),
+        byAsset: z.record(mergePolicySchema).optional(),
+      })
+      .strict(),
+    consensus: z
+      .object({
+        divergenceThresholdPercent: z.number().positive(),
+        byAsset: z.record(z.number().positive()).optional(),
+      })
+      .strict(),
+    conversion: z
+      .object({ pivotCurrencies: z.array(z.string().regex(/^[A-Z]{3}$/)) })
+      .strict(),
+    resilience: z
+      .object({
+        retry: retrySchema,
+        breaker: z
+          .object({ failureThreshold: z.number().int().min(1), resetTimeoutMs: positiveMs })
+          .strict(),
+      })
+      .strict(),
+    validation: z
+      .object({
+        maxJumpPercent: z.number().positive(),
+        byAsset: z.record(z.number().positive()).optional(),
+        outlierConfirmations: z.number().int().min(1),
+      })
+      .strict(),
+    freshness: z
+      .object({
+        defaultMaxAgeMs: positiveMs,
+        byAsset: z.record(positiveMs).optional(),
+      })
+      .strict(),
+    admin: z.object({ token: z.string().min(16).optional() }).strict(),
+  })
+  .strict();
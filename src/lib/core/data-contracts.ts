@@ -1,10 +1,18 @@
 /** Defines the type of asset we are handling. */
 export type AssetType = "currency" | "commodity";
+export const ASSET_TYPES: readonly AssetType[] = ["currency", "commodity"];
 
 /** A unique identifier for an asset, e.g., "USD_EGP" or "OIL_WTI". */
 export type AssetIdentifier = string;
+export const ASSET_IDENTIFIER_PATTERN = /^[A-Z0-9]+_[A-Z0-9]+$/;
 
 export type RateType = "official" | "parallel_market" | "interbank" | "market";
+export const RATE_TYPES: readonly RateType[] = [
+  "official",
+  "parallel_market",
+  "interbank",
+  "market",
+];
 
 /** The clean, standardized data for a single asset's current state. */
 export interface StandardizedRate {
@@ -14,12 +22,254 @@ export interface StandardizedRate {
   unit: string; // e.g., "EGP" for currency, "USD/bbl" for oil
 }
 
+/** One source's quote for a rate type, as it was before merging. */
+export interface SourcedRate {
+  source: string;
+  timestamp: number;
+  rate: StandardizedRate;
+}
+
+/**
+ * How the orchestrator picks one rate when several sources quote the same
+ * asset and rate type.
+ * - `priority`: the first source in the policy's `sourcePriority` list wins.
+ * - `freshest`: the most recent quote wins.
+ * - `median` / `average`: each price field is combined across all quotes.
+ */
+export type MergeStrategy = "priority" | "freshest" | "median" | "average";
+
+export interface MergePolicy {
+  strategy: MergeStrategy;
+  /** Source names, best first. Unlisted sources rank after listed ones. */
+  sourcePriority?: string[];
+}
+
+/** Where a merged rate came from, and which quotes it beat. */
+export interface RateProvenance {
+  strategy: MergeStrategy;
+  /** The sources whose quotes make up the merged value. */
+  sources: string[];
+  /** Observation time of the newest contributing quote. */
+  timestamp: number;
+  /** Quotes that were considered but not used. */
+  rejected: SourcedRate[];
+  /** For `median` and `average`: the quotes that were combined. */
+  combined?: SourcedRate[];
+}
+
+/**
+ * Agreement between sources quoting the same asset and rate type. Only
+ * computed when at least two sources quote it.
+ */
+export interface RateConsensus {
+  /** Median of the quoted mid rates. */
+  midRate: number;
+  sourceCount: number;
+  /** (highest mid - lowest mid) / consensus mid, in percent. */
+  spreadPercent: number;
+  /** 1 when all sources agree, 0.5 at the divergence threshold, 0 at twice it. */
+  confidence: number;
+  /** True when the spread exceeds the configured divergence threshold. */
+  divergent: boolean;
+}
+
+/** One quoted pair used to derive a cross rate, possibly read backwards. */
+export interface DerivationStep {
+  assetId: AssetIdentifier;
+  inverted: boolean;
+}
+
+/** How a derived (cross or inverted) asset was computed. */
+export interface AssetDerivation {
+  rateType: RateType;
+  /** Currencies visited, e.g. ["EGP", "USD", "DZD"]. */
+  path: string[];
+  steps: DerivationStep[];
+}
+
+/** Gap between the selling and buying side of one rate. */
+export interface RateSpread {
+  /** selling - buying, in the rate's unit. */
+  absolute: number;
+  /** absolute / midRate, in percent. */
+  percent: number;
+}
+
+export type ChangeWindow = "24h" | "7d" | "30d";
+export const CHANGE_WINDOWS: readonly ChangeWindow[] = ["24h", "7d", "30d"];
+
+/** Movement of a mid rate against an earlier observation. */
+export interface PriceChange {
+  absolute: number;
+  percent: number;
+  /** When the reference observation was made. */
+  since: number;
+}
+
+/** Server-side figures derived from an asset's rates and history. */
+export interface AssetAnalytics {
+  /**
+   * How far the parallel-market mid rate sits above the official one, in
+   * percent. Only present when the asset carries both rate types.
+   */
+  parallelPremiumPercent?: number;
+  spreads: Partial<Record<RateType, RateSpread>>;
+  /** Windows are omitted when no history reaches back far enough. */
+  changes: Partial<Record<RateType, Partial<Record<ChangeWindow, PriceChange>>>>;
+}
+
+export type Locale = "en" | "ar" | "fr";
+export const LOCALES: readonly Locale[] = ["en", "ar", "fr"];
+export type LocalizedNames = Record<Locale, string>;
+
+/**
+ * Canonical metadata for one asset, from the asset registry. For currency
+ * pairs `base` and `quote` are ISO 4217 codes and the identifier is
+ * `BASE_QUOTE`; commodities keep their historical identifiers.
+ */
+export interface AssetDefinition {
+  identifier: AssetIdentifier;
+  type: AssetType;
+  base: string;
+  quote: string;
+  /** Decimal places to display prices with. */
+  decimals: number;
+  names: LocalizedNames;
+  /** Other identifiers sources use for this asset. */
+  aliases: string[];
+}
+
+/** An identifier a source produced that the registry doesn't know. */
+export interface UnknownAssetReport {
+  identifier: AssetIdentifier;
+  source: string;
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+/** What a data-source plugin provides, as listed by the admin API. */
+export interface SourcePluginInfo {
+  /** Also the name of the source it builds. */
+  name: string;
+  description: string;
+  /** Asset identifiers, or patterns such as `*_EGP`. */
+  assets: string[];
+  rateTypes: RateType[];
+  /** ISO 3166 country codes, or "global". */
+  regions: string[];
+}
+
 /** The clean, unified historical data point structure for charting. */
 export interface StandardizedHistoricalPoint {
   timestamp: number;
   value: number;
 }
 
+/** A single persisted observation of one rate type, as reported by one source. */
+export interface HistoricalRateRecord {
+  assetId: AssetIdentifier;
+  rateType: RateType;
+  source: string;
+  timestamp: number;
+  buying: number;
+  selling: number;
+  midRate: number;
+  unit: string;
+}
+
+export type CandleInterval = "1h" | "1d" | "1w";
+export const CANDLE_INTERVALS: readonly CandleInterval[] = ["1h", "1d", "1w"];
+
+/** Which side of a quote a candle series is built from. */
+export type PriceSide = "buying" | "selling";
+export const PRICE_SIDES: readonly PriceSide[] = ["buying", "selling"];
+
+/**
+ * How to treat intervals with no observations: carry the previous close
+ * forward, or emit an explicitly empty candle.
+ */
+export type GapFillPolicy = "forward_fill" | "mark_missing";
+export const GAP_FILL_POLICIES: readonly GapFillPolicy[] = [
+  "forward_fill",
+  "mark_missing",
+];
+
+/**
+ * One OHLC candle. `timestamp` is the UTC start of the interval. Gaps are never
+ * dropped: a `filled` candle repeats the previous close, and a `missing` one
+ * has null prices.
+ */
+export type OHLCCandle =
+  | {
+      timestamp: number;
+      status: "observed" | "filled";
+      open: number;
+      high: number;
+      low: number;
+      close: number;
+      count: number;
+    }
+  | {
+      timestamp: number;
+      status: "missing";
+      open: null;
+      high: null;
+      low: null;
+      close: null;
+      count: 0;
+    };
+
+/** Candles from one source's quotes; sources are never mixed in a series. */
+export interface CandleSeries {
+  assetId: AssetIdentifier;
+  source: string;
+  rateType: RateType;
+  side: PriceSide;
+  interval: CandleInterval;
+  gapFill: GapFillPolicy;
+  candles: OHLCCandle[];
+}
+
+/**
+ * Layouts of `/api/v1/export`. `columnar` is one JSON object of equally long
+ * arrays, one per column, ready for dataframes and Parquet writers.
+ */
+export type ExportFormat = "csv" | "ndjson" | "columnar";
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["csv", "ndjson", "columnar"];
+
+/** One exported row: one source's quote for one rate type of an asset. */
+export interface ExportRow {
+  identifier: AssetIdentifier;
+  name: string;
+  /** Absent for stored history of assets the registry doesn't define. */
+  type?: AssetType;
+  rateType: RateType;
+  source: string;
+  timestamp: number;
+  buying: number;
+  selling: number;
+  midRate: number;
+  unit: string;
+  /** Snapshot exports only: whether the served rate is, or includes, this quote. */
+  merged?: boolean;
+}
+
+/** Why a source's data for an asset breaches its freshness SLA. */
+export type StalenessReason = "max_age" | "unchanged";
+
+/** How current one source's data for an asset is; see `FreshnessConfig`. */
+export interface AssetFreshness {
+  source: string;
+  /** When the upstream says the values were published, else when they were fetched. */
+  observedAt: number;
+  ageMs: number;
+  maxAgeMs: number;
+  /** When the values last changed, if later fetches have repeated them since. */
+  unchangedSince?: number;
+  stale: boolean;
+  reason?: StalenessReason;
+}
+
 /** The complete, standardized representation of a single asset. */
 export interface StandardizedAsset {
   identifier: AssetIdentifier;
@@ -29,11 +279,148 @@ export interface StandardizedAsset {
   timestamp: number;
   rates: Partial<Record<RateType, StandardizedRate>>;
   historicalData: StandardizedHistoricalPoint[];
+  /** Set on merged assets: per-rate-type record of the merge decision. */
+  provenance?: Partial<Record<RateType, RateProvenance>>;
+  /** Set on merged assets for rate types quoted by more than one source. */
+  consensus?: Partial<Record<RateType, RateConsensus>>;
+  /** Present only on assets computed from other pairs rather than quoted. */
+  derivation?: AssetDerivation;
+  analytics?: AssetAnalytics;
+  /** Set on served assets: one entry per source contributing a rate. */
+  freshness?: AssetFreshness[];
+  /** True when any contributing source breaches its freshness SLA. */
+  stale?: boolean;
+}
+
+/** Which sources made it into a merged snapshot, and which didn't. */
+export interface SnapshotMeta {
+  /** When the oldest data in the snapshot was fetched. */
+  fetchedAt: number;
+  /** Milliseconds since `fetchedAt`, as of the moment it was served. */
+  ageMs: number;
+  /** True when any contributing source's data is past its TTL. */
+  stale: boolean;
+  /** Contributing sources whose data is past its TTL and being refreshed. */
+  staleSources: string[];
+  /** True when any source timed out, errored or was skipped. */
+  partial: boolean;
+  contributed: string[];
+  timedOut: string[];
+  errored: { source: string; error: string }[];
+  /** Sources not called at all, e.g. because their circuit is open. */
+  skipped: string[];
 }
 
 /** The final, unified data object produced by the orchestrator. */
 export interface StandardizedData {
   assets: Record<AssetIdentifier, StandardizedAsset>;
+  /** Set on merged snapshots only, never on a single source's output. */
+  meta?: SnapshotMeta;
+}
+
+/** How one asset differs between two consecutive merged snapshots. */
+export interface RateUpdate {
+  assetId: AssetIdentifier;
+  kind: "added" | "updated" | "removed";
+  /** Rate types whose buying, selling or mid rate changed, appeared or went away. */
+  changedRateTypes: RateType[];
+  /** Absent when the asset was removed. */
+  rates?: Partial<Record<RateType, StandardizedRate>>;
+  /** Absent when the asset was added. */
+  previousRates?: Partial<Record<RateType, StandardizedRate>>;
+  source: string;
+  timestamp: number;
+}
+
+/** One published snapshot diff, as delivered to stream subscribers. */
+export interface RateUpdateEvent {
+  /** Opaque and increasing within one process; clients echo it to resume. */
+  id: string;
+  publishedAt: number;
+  updates: RateUpdate[];
+}
+
+export type AlertComparison = "above" | "below";
+export const ALERT_COMPARISONS: readonly AlertComparison[] = ["above", "below"];
+
+/**
+ * What an alert rule watches.
+ * - `threshold`: one price of one rate type crosses a fixed value.
+ * - `percent_change`: the mid rate moved at least `percent` over a window, in
+ *   either direction unless `direction` is set.
+ * - `premium`: the parallel-market premium over the official rate, in percent.
+ */
+export type AlertCondition =
+  | {
+      kind: "threshold";
+      rateType: RateType;
+      side: PriceSide | "midRate";
+      comparison: AlertComparison;
+      value: number;
+    }
+  | {
+      kind: "percent_change";
+      rateType: RateType;
+      window: ChangeWindow;
+      percent: number;
+      direction?: "up" | "down";
+    }
+  | { kind: "premium"; comparison: AlertComparison; percent: number };
+export type AlertConditionKind = AlertCondition["kind"];
+export const ALERT_CONDITION_KINDS: readonly AlertConditionKind[] = [
+  "threshold",
+  "percent_change",
+  "premium",
+];
+
+/**
+ * A user's alert. Rules fire on the transition into their condition, not on
+ * every snapshot while it holds, and not again within `cooldownMs`.
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  assetId: AssetIdentifier;
+  condition: AlertCondition;
+  webhookUrl: string;
+  /** HMAC key for the webhook signature. Never returned by the API. */
+  secret: string;
+  enabled: boolean;
+  cooldownMs: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Whether the condition held at the last evaluation. */
+  active: boolean;
+  lastTriggeredAt?: number;
+}
+
+/** The body POSTed to a rule's webhook. */
+export interface AlertEvent {
+  id: string;
+  type: "alert.triggered" | "alert.test";
+  ruleId: string;
+  ruleName: string;
+  assetId: AssetIdentifier;
+  condition: AlertCondition;
+  /** The value the condition was checked against. */
+  observed: number;
+  rates: Partial<Record<RateType, StandardizedRate>>;
+  triggeredAt: number;
+}
+
+/** One webhook delivery, after all its attempts. */
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  ruleId: string;
+  url: string;
+  status: "delivered" | "failed";
+  attempts: number;
+  /** HTTP status of the last attempt, if the receiver answered at all. */
+  responseStatus?: number;
+  error?: string;
+  startedAt: number;
+  completedAt: number;
 }
 
 /** The contract (interface) that all data source strategies must adhere to. */
@@ -44,11 +431,56 @@ export interface IDataSource {
   getHealth(): DataSourceHealth;
 }
 
+export type CircuitState = "closed" | "open" | "half_open";
+export const CIRCUIT_STATES: readonly CircuitState[] = ["closed", "open", "half_open"];
+
+/** A snapshot of a source's circuit breaker. */
+export interface CircuitBreakerState {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Set while the circuit is open or half-open. */
+  openedAt?: number;
+  /** Earliest time a trial call is allowed; set with `openedAt`. */
+  nextRetryAt?: number;
+}
+
 /** Represents the health status of a single data source. */
+/**
+ * Why data was withheld from the merged output.
+ * - `schema`: the raw payload didn't match the source's schema; nothing was used.
+ * - `invariant`: a rate was malformed (not finite, not positive, buying above
+ *   selling, mid rate outside the spread).
+ * - `outlier`: a rate jumped too far from the last value accepted from the
+ *   same source.
+ */
+export type QuarantineReason = "schema" | "invariant" | "outlier";
+
+export interface QuarantinedRecord {
+  source: string;
+  reason: QuarantineReason;
+  /** Human-readable specifics, e.g. which invariant failed. */
+  detail: string;
+  /** Absent for whole-payload rejections. */
+  assetId?: AssetIdentifier;
+  rateType?: RateType;
+  rate?: StandardizedRate;
+  quarantinedAt: number;
+}
+
+export interface QuarantineSummary {
+  /** Records quarantined since the process started. */
+  total: number;
+  byReason: Record<QuarantineReason, number>;
+  /** The latest records, newest first. */
+  recent: QuarantinedRecord[];
+}
+
 export interface DataSourceHealth {
   source: string;
   status: "healthy" | "degraded" | "failed";
   lastCheck: number;
   latency: number;
   message?: string;
+  breaker: CircuitBreakerState;
+  quarantine: QuarantineSummary;
 }
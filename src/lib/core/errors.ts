@@ -0,0 +1,43 @@
+/** Raised when no data source could produce data and nothing is cached to fall back on. */
+export class DataUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DataUnavailableError";
+  }
+}
+
+/** Raised when a source's raw payload doesn't match the shape its adapter expects. */
+export class PayloadValidationError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[]
+  ) {
+    super(message);
+    this.name = "PayloadValidationError";
+  }
+}
+
+/** Raised at startup when the layered configuration fails validation. */
+export class ConfigValidationError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[]
+  ) {
+    super(message);
+    this.name = "ConfigValidationError";
+  }
+}
+
+/** Raised when an export would hold more rows in memory than its format allows. */
+export class ExportTooLargeError extends Error {
+  constructor(
+    readonly rowCount: number,
+    readonly limit: number
+  ) {
+    super(
+      `Columnar export of ${rowCount} rows exceeds the limit of ${limit}. ` +
+        "Narrow the range or filters, or use csv or ndjson."
+    );
+    this.name = "ExportTooLargeError";
+  }
+}
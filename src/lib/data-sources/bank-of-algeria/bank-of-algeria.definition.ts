@@ -0,0 +1,31 @@
+import { ScraperDefinition } from "../scraper/scraper.definition";
+
+/**
+ * The Bank of Algeria "Cours de change" table: official DZD rates, with an
+ * ISO code column and comma decimals ("129,7852").
+ */
+export const bankOfAlgeriaDefinition: ScraperDefinition = {
+  name: "Bank-of-Algeria-Web",
+  url: "https://www.bank-of-algeria.dz/cours-de-change/",
+  timeoutMs: 8000,
+  healthCheckTimeoutMs: 5000,
+  rateType: "official",
+  quoteCurrency: "DZD",
+  numberFormat: { decimalSeparator: ",", thousandsSeparator: " " },
+  currencies: [
+    { code: "USD", name: "Dollar US" },
+    { code: "EUR", name: "Euro" },
+    { code: "GBP", name: "Livre Sterling" },
+    { code: "CHF", name: "Franc Suisse" },
+    { code: "CAD", name: "Dollar Canadien" },
+    { code: "CNY", name: "Yuan Chinois" },
+  ],
+  extraction: {
+    mode: "table",
+    row: "table.cours-change tr",
+    currency: "td:nth-child(2)",
+    buying: "td:nth-child(3)",
+    selling: "td:nth-child(4)",
+  },
+  publishedAt: { selector: "p.date-cotation", timeZone: "Africa/Algiers" },
+};
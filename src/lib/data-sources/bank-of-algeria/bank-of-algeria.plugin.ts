@@ -0,0 +1,8 @@
+import { scraperPlugin } from "../scraper/scraper.plugin";
+import { bankOfAlgeriaDefinition } from "./bank-of-algeria.definition";
+
+export const bankOfAlgeriaSource = scraperPlugin(bankOfAlgeriaDefinition, {
+  description: "The Bank of Algeria's official DZD rates.",
+  regions: ["DZ"],
+  fixture: "src/lib/data-sources/bank-of-algeria/fixtures/cours-de-change.html",
+});
@@ -1,18 +1,53 @@
+import { ZodType } from "zod";
 import {
   IDataSource,
   StandardizedData,
   DataSourceHealth,
+  QuarantinedRecord,
 } from "@/lib/core/data-contracts";
+import { getAppConfig, ResilienceConfig } from "@/lib/config/app-config";
+import { PayloadValidationError } from "@/lib/core/errors";
+import { FetchHttpClient, HttpClient } from "@/lib/http/http.client";
+import { pipelineMetrics as metrics } from "@/lib/metrics/pipeline.metrics";
+import { getAssetRegistry } from "@/lib/registry/asset.registry";
+import { Quarantine } from "@/lib/validation/quarantine";
+import { RateValidator } from "@/lib/validation/rate.validator";
+import { CircuitBreaker } from "@/lib/utils/circuit-breaker";
 import { Logger } from "@/lib/utils/logger";
+import { retryWithBackoff } from "@/lib/utils/retry";
+
+/** Where a source fetches from, and how long it waits. */
+export interface SourceEndpoint {
+  url: string;
+  timeoutMs: number;
+  healthCheckTimeoutMs: number;
+}
 
 export abstract class BaseDataSource implements IDataSource {
   public readonly name: string;
-  protected health: DataSourceHealth;
+  protected health: Omit<DataSourceHealth, "breaker" | "quarantine">;
   protected logger: Logger;
+  protected breaker: CircuitBreaker;
+  /** The shape `executeFetch()` must resolve with; unchecked when absent. */
+  protected readonly rawSchema?: ZodType<unknown>;
+  private resilience: ResilienceConfig;
+  private validator: RateValidator;
+  private quarantine = new Quarantine();
 
-  constructor(name: string) {
+  /**
+   * Sources reach their upstream through `http`, so it can be swapped for
+   * fixtures (demo mode, tests) without the source knowing.
+   */
+  constructor(
+    name: string,
+    protected readonly http: HttpClient = new FetchHttpClient(),
+    resilience?: ResilienceConfig
+  ) {
     this.name = name;
     this.logger = new Logger(`DataSource:${name}`);
+    this.resilience = resilience ?? getAppConfig().resilience;
+    this.breaker = new CircuitBreaker(this.resilience.breaker);
+    this.validator = new RateValidator(name, getAppConfig().validation);
     this.health = {
       source: this.name,
       status: "healthy",
@@ -21,30 +56,150 @@ export abstract class BaseDataSource implements IDataSource {
     };
   }
 
+  /**
+   * Fetches and adapts data, retrying the fetch with exponential backoff.
+   * While the circuit breaker is open the call fails immediately; once it is
+   * half-open a single attempt (without retries) decides whether it closes.
+   *
+   * The raw payload is checked against `rawSchema` before adapting, the
+   * adapted assets are mapped onto the asset registry, and every rate is
+   * screened by a `RateValidator`. Rejected data is
+   * quarantined and reported in health; a payload that fails its schema, or
+   * whose every rate is rejected, counts as a failed fetch.
+   *
+   * Every call is counted and timed in `pipelineMetrics`, by outcome.
+   */
   public async fetchStandardizedData(): Promise<StandardizedData> {
+    const source = this.name;
+    if (!this.breaker.tryAcquire()) {
+      metrics.sourceFetches.inc({ source, outcome: "refused" });
+      metrics.sourceFetchErrors.inc({ source, reason: "circuit_open" });
+      const { nextRetryAt } = this.breaker.getState();
+      throw new Error(
+        `[${this.name}] Circuit open; next attempt after ${new Date(
+          nextRetryAt ?? Date.now()
+        ).toISOString()}`
+      );
+    }
+
+    const isTrial = this.breaker.isHalfOpen();
     const startTime = Date.now();
+    const stopTimer = metrics.sourceFetchDuration.startTimer({ source });
+    let failureReason = "error";
     try {
-      const rawData = await this.executeFetch();
-      const adaptedData = this.adaptToStandardizedFormat(rawData);
+      const rawData = await retryWithBackoff(
+        () => this.executeFetch(),
+        isTrial
+          ? { ...this.resilience.retry, maxAttempts: 1 }
+          : this.resilience.retry,
+        (error, attempt, delayMs) =>
+          this.logger.warn(`Fetch attempt ${attempt} failed; retrying in ${delayMs}ms`, {
+            error: error instanceof Error ? error.message : error,
+          })
+      );
+      const adaptedData = getAssetRegistry().canonicalize(
+        this.adaptToStandardizedFormat(this.checkSchema(rawData)),
+        this.name
+      );
+      const { data, rejected } = this.validator.validate(adaptedData);
+      this.quarantineRecords(rejected);
+      if (
+        Object.keys(data.assets).length === 0 &&
+        Object.keys(adaptedData.assets).length > 0
+      ) {
+        failureReason = "quarantined";
+        throw new Error(`All ${rejected.length} rates were quarantined`);
+      }
+      this.breaker.recordSuccess();
       this.updateHealth(true, Date.now() - startTime);
-      return adaptedData;
+      metrics.sourceFetches.inc({ source, outcome: "success" });
+      stopTimer({ outcome: "success" });
+      return data;
     } catch (error) {
       const message =
         error instanceof Error ? error.message : "Unknown fetch error";
+      if (error instanceof PayloadValidationError) failureReason = "schema";
+      else if (error instanceof Error && error.name === "TimeoutError") {
+        failureReason = "timeout";
+      }
+      metrics.sourceFetches.inc({ source, outcome: "error" });
+      metrics.sourceFetchErrors.inc({ source, reason: failureReason });
+      stopTimer({ outcome: "error" });
+      this.breaker.recordFailure();
       this.updateHealth(false, Date.now() - startTime, message);
-      this.logger.error("Failed to execute data fetch", { error: message });
+      this.logger.error("Failed to execute data fetch", {
+        error: message,
+        breaker: this.breaker.getState(),
+      });
       throw new Error(`[${this.name}] ${message}`);
     }
   }
 
+  private checkSchema(rawData: unknown): unknown {
+    if (!this.rawSchema) return rawData;
+    const result = this.rawSchema.safeParse(rawData);
+    if (result.success) return result.data;
+
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    this.quarantineRecords([
+      {
+        source: this.name,
+        reason: "schema",
+        detail: issues.slice(0, 5).join("; "),
+        quarantinedAt: Date.now(),
+      },
+    ]);
+    throw new PayloadValidationError(
+      `Payload failed schema validation (${issues.length} issues)`,
+      issues
+    );
+  }
+
+  private quarantineRecords(records: QuarantinedRecord[]): void {
+    if (records.length === 0) return;
+    this.quarantine.add(records);
+    for (const record of records) {
+      metrics.sourceQuarantined.inc({ source: this.name, reason: record.reason });
+      this.logger.warn(
+        `Quarantined ${record.assetId ?? "payload"}${
+          record.rateType ? ` ${record.rateType}` : ""
+        } (${record.reason}): ${record.detail}`
+      );
+    }
+  }
+
   public abstract checkHealth(): Promise<void>;
   protected abstract executeFetch(): Promise<unknown>;
   protected abstract adaptToStandardizedFormat(
     rawData: unknown
   ): StandardizedData;
 
-  public getHealth = (): DataSourceHealth => ({ ...this.health });
+  /**
+   * An open circuit always reports `failed`, so the orchestrator skips the
+   * source; a half-open one reports `degraded`, letting the trial call through.
+   */
+  public getHealth = (): DataSourceHealth => {
+    const breaker = this.breaker.getState();
+    const status =
+      breaker.state === "open"
+        ? "failed"
+        : breaker.state === "half_open"
+        ? "degraded"
+        : this.health.status;
+    return {
+      ...this.health,
+      status,
+      breaker,
+      quarantine: this.quarantine.getSummary(),
+    };
+  };
 
+  /**
+   * Records the outcome of a fetch or health check. Health checks don't move
+   * the circuit breaker; only real fetches do.
+   */
   protected updateHealth(
     isSuccess: boolean,
     latency: number,
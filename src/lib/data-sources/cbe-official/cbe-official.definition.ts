@@ -0,0 +1,30 @@
+import { ScraperDefinition } from "../scraper/scraper.definition";
+
+/** The Central Bank of Egypt exchange-rates table: official EGP rates. */
+export const cbeOfficialDefinition: ScraperDefinition = {
+  name: "CBE-Official-Web",
+  url: "https://www.cbe.org.eg/en/economic-research/statistics/cbe-exchange-rates",
+  timeoutMs: 8000,
+  healthCheckTimeoutMs: 5000,
+  rateType: "official",
+  quoteCurrency: "EGP",
+  numberFormat: { decimalSeparator: ".", thousandsSeparator: "," },
+  currencies: [
+    { code: "USD", name: "US Dollar" },
+    { code: "EUR", name: "Euro" },
+    { code: "GBP", name: "Pound Sterling" },
+    { code: "CHF", name: "Swiss Franc" },
+    { code: "SAR", name: "Saudi Riyal" },
+    { code: "AED", name: "UAE Dirham" },
+    { code: "KWD", name: "Kuwaiti Dinar" },
+    { code: "CNY", name: "Chinese Yuan" },
+  ],
+  extraction: {
+    mode: "table",
+    row: "table.exchange-rates tbody tr",
+    currency: "td:nth-child(1)",
+    buying: "td:nth-child(2)",
+    selling: "td:nth-child(3)",
+  },
+  publishedAt: { selector: "p.last-update", timeZone: "Africa/Cairo" },
+};
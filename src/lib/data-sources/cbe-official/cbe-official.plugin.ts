@@ -0,0 +1,8 @@
+import { scraperPlugin } from "../scraper/scraper.plugin";
+import { cbeOfficialDefinition } from "./cbe-official.definition";
+
+export const cbeOfficialSource = scraperPlugin(cbeOfficialDefinition, {
+  description: "The Central Bank of Egypt's official EGP rates.",
+  regions: ["EG"],
+  fixture: "src/lib/data-sources/cbe-official/fixtures/exchange-rates.html",
+});
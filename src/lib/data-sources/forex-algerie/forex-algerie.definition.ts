@@ -0,0 +1,34 @@
+import { ScraperDefinition } from "../scraper/scraper.definition";
+
+/**
+ * forexalgerie.com lists parallel-market DZD rates, one element per price
+ * with ids like `usdBuy` / `usdSell`.
+ */
+export const forexAlgerieDefinition: ScraperDefinition = {
+  name: "Forex-Algerie-Web",
+  url: "http://www.forexalgerie.com/",
+  timeoutMs: 8000,
+  healthCheckTimeoutMs: 5000,
+  rateType: "parallel_market",
+  quoteCurrency: "DZD",
+  numberFormat: { decimalSeparator: "." },
+  currencies: [
+    { code: "EUR", name: "Euro" },
+    { code: "USD", name: "Dollar US" },
+    { code: "CAD", name: "Dollar Canadien" },
+    { code: "GBP", name: "Livre Sterling" },
+    { code: "CHF", name: "Franc Suisse" },
+    { code: "TRY", name: "Livre Turque" },
+    { code: "CNY", name: "Yuan Chinois" },
+    { code: "SAR", name: "Rial Saoudien" },
+    { code: "AED", name: "Dirham Emirati" },
+    { code: "TND", name: "Dinar Tunisien" },
+    { code: "MAD", name: "Dirham Marocain" },
+  ],
+  extraction: {
+    mode: "element",
+    buying: "#{lower}Buy",
+    selling: "#{lower}Sell",
+  },
+  publishedAt: { selector: "p.maj", timeZone: "Africa/Algiers" },
+};
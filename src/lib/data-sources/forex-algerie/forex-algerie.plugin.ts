@@ -0,0 +1,8 @@
+import { scraperPlugin } from "../scraper/scraper.plugin";
+import { forexAlgerieDefinition } from "./forex-algerie.definition";
+
+export const forexAlgerieSource = scraperPlugin(forexAlgerieDefinition, {
+  description: "Parallel-market DZD rates from forexalgerie.com.",
+  regions: ["DZ"],
+  fixture: "src/lib/data-sources/forex-algerie/fixtures/forexalgerie.html",
+});
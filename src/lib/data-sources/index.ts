@@ -1,7 +1,16 @@
 /**
  * This file serves as a single entry point for all data source modules.
- * It makes it easy for the orchestrator to import and use them.
+ * Sources are built through the registry; see `source.catalog.ts` for the
+ * ones that ship with the service.
  */
 export { SarfCurrencySource } from "./sarf-currency/sarf-currency.source";
 export { MockCommoditiesSource } from "./mock-commodities/mock-commodities.source";
-export { ForexAlgerieSource } from "./forex-algerie/forex-algerie.source"; // <-- ADD THIS LINE
+export { ScraperSource } from "./scraper/scraper.source";
+export { scraperPlugin } from "./scraper/scraper.plugin";
+export { forexAlgerieDefinition } from "./forex-algerie/forex-algerie.definition";
+export { cbeOfficialDefinition } from "./cbe-official/cbe-official.definition";
+export { bankOfAlgeriaDefinition } from "./bank-of-algeria/bank-of-algeria.definition";
+export { SourceRegistry, getSourceRegistry, toPluginInfo } from "./source.registry";
+export type { SourcePlugin } from "./source.registry";
+export { SourceManager } from "./source.manager";
+export type { ManagedSource, ResolvedSource } from "./source.manager";
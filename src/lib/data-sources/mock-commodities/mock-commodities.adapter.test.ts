@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { MockCommoditiesAdapter } from "./mock-commodities.adapter";
+
+describe("MockCommoditiesAdapter", () => {
+  const timestamp = "2026-10-19T12:00:00.000Z";
+  const data = new MockCommoditiesAdapter("Mock-Commodities-API").adapt({
+    timestamp,
+    commodities: [
+      { name: "Gold Spot", id: "GOLD_XAU", price: 2000, unit: "USD/oz", change: -10.5 },
+    ],
+  });
+  const gold = data.assets.GOLD_XAU;
+
+  it("quotes a market rate around the price, stamped with the payload time", () => {
+    expect(gold.type).toBe("commodity");
+    expect(gold.timestamp).toBe(Date.parse(timestamp));
+    expect(gold.rates.market).toEqual({
+      buying: 1996,
+      selling: 2004,
+      midRate: 2000,
+      unit: "USD/oz",
+    });
+  });
+
+  it("simulates thirty days of history before the payload time", () => {
+    expect(gold.historicalData).toHaveLength(30);
+    expect(gold.historicalData[0].timestamp).toBe(Date.parse(timestamp) - 30 * 86400000);
+    for (const point of gold.historicalData) {
+      expect(point.value).toBeGreaterThan(1900);
+      expect(point.value).toBeLessThan(2100);
+    }
+  });
+});
@@ -1,16 +1,9 @@
+import { z } from "zod";
 import { StandardizedData, StandardizedAsset } from "@/lib/core/data-contracts";
+import { mockCommodityRawDataSchema } from "./mock-commodities.schema";
 
 // The unique shape of raw data for this source
-export interface MockCommodityRawData {
-  timestamp: string;
-  commodities: {
-    name: string;
-    id: string;
-    price: number;
-    unit: string;
-    change: number;
-  }[];
-}
+export type MockCommodityRawData = z.infer<typeof mockCommodityRawDataSchema>;
 
 export class MockCommoditiesAdapter {
   constructor(private readonly sourceName: string) {}
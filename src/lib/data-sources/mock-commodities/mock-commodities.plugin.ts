@@ -0,0 +1,12 @@
+import type { SourcePlugin } from "../source.registry";
+import { MockCommoditiesSource } from "./mock-commodities.source";
+
+// Generates its own data, so it needs no endpoint or fixture.
+export const mockCommoditiesSource: SourcePlugin = {
+  name: "Mock-Commodities-API",
+  description: "Simulated WTI crude and gold spot prices.",
+  assets: ["OIL_WTI", "GOLD_XAU"],
+  rateTypes: ["market"],
+  regions: ["global"],
+  create: () => new MockCommoditiesSource(),
+};
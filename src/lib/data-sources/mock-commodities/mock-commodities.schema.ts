@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+export const mockCommodityRawDataSchema = z.object({
+  timestamp: z.string().datetime(),
+  commodities: z.array(
+    z.object({
+      name: z.string().min(1),
+      id: z.string().regex(/^[A-Z0-9]+_[A-Z0-9]+$/),
+      price: z.number(),
+      unit: z.string().min(1),
+      change: z.number(),
+    })
+  ),
+});
@@ -4,9 +4,11 @@ import {
   MockCommoditiesAdapter,
   MockCommodityRawData,
 } from "./mock-commodities.adapter";
+import { mockCommodityRawDataSchema } from "./mock-commodities.schema";
 
 export class MockCommoditiesSource extends BaseDataSource {
   private adapter: MockCommoditiesAdapter;
+  protected readonly rawSchema = mockCommodityRawDataSchema;
   constructor() {
     super("Mock-Commodities-API");
     this.adapter = new MockCommoditiesAdapter(this.name);
@@ -0,0 +1,70 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import { HttpClient, HttpResponse } from "@/lib/http/http.client";
+import { SarfCurrencyAdapter, SarfRawResponse } from "./sarf-currency.adapter";
+import { SARF_CURRENCY_ENDPOINT, SarfCurrencySource } from "./sarf-currency.source";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+
+const body = readFileSync(path.join(__dirname, "fixtures", "rates.json"), "utf8");
+const raw = JSON.parse(body) as SarfRawResponse;
+
+describe("SarfCurrencyAdapter", () => {
+  const data = new SarfCurrencyAdapter("Sarf-EGP-API").adapt(raw);
+
+  it("adapts each rate as a parallel-market EGP pair", () => {
+    expect(Object.keys(data.assets).sort()).toEqual(
+      ["AED_EGP", "EUR_EGP", "GBP_EGP", "KWD_EGP", "SAR_EGP", "USD_EGP"]
+    );
+    expect(data.assets.USD_EGP.rates.parallel_market).toEqual({
+      buying: 49.35,
+      selling: 49.6,
+      midRate: 49.475,
+      unit: "EGP",
+    });
+  });
+
+  it("turns the chart into history in milliseconds", () => {
+    expect(data.assets.USD_EGP.historicalData).toEqual([
+      { timestamp: 1760745600000, value: 49.2 },
+      { timestamp: 1760832000000, value: 49.3 },
+      { timestamp: 1760918400000, value: 49.35 },
+    ]);
+    expect(data.assets.GBP_EGP.historicalData).toEqual([]);
+  });
+
+  it("stamps assets with the publication time when given, else the fetch time", () => {
+    const publishedAt = Date.parse("2026-10-19T09:00:00Z");
+    const adapter = new SarfCurrencyAdapter("Sarf-EGP-API");
+    expect(adapter.adapt(raw, publishedAt).assets.USD_EGP.timestamp).toBe(publishedAt);
+    expect(adapter.adapt(raw, null).assets.USD_EGP.timestamp).toBe(NOW);
+    expect(adapter.adapt(raw, NOW + 3600000).assets.USD_EGP.timestamp).toBe(NOW);
+  });
+});
+
+describe("SarfCurrencySource", () => {
+  const respond = (response: Partial<HttpResponse>): HttpClient => ({
+    send: async () => ({ status: 200, ok: true, headers: {}, body, ...response }),
+  });
+
+  it("takes the observation time from Last-Modified", async () => {
+    const source = new SarfCurrencySource(
+      SARF_CURRENCY_ENDPOINT,
+      respond({ headers: { "last-modified": "Mon, 19 Oct 2026 09:15:00 GMT" } })
+    );
+    const data = await source.fetchStandardizedData();
+    expect(data.assets.USD_EGP.timestamp).toBe(Date.parse("2026-10-19T09:15:00Z"));
+    expect(data.assets.USD_EGP.name).toBe("US Dollar to Egyptian Pound");
+  });
+
+  it("fails the fetch on a payload that breaks the schema", async () => {
+    const source = new SarfCurrencySource(
+      SARF_CURRENCY_ENDPOINT,
+      respond({ body: '{"rates":{"usd":{"buying":"49"}}}' })
+    );
+    await expect(source.fetchStandardizedData()).rejects.toThrow(/schema/);
+    expect(source.getHealth().quarantine.byReason.schema).toBe(1);
+  });
+});
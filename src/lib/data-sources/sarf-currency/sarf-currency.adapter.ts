@@ -1,15 +1,12 @@
+import { z } from "zod";
 import { StandardizedData, StandardizedAsset } from "@/lib/core/data-contracts";
 import { Logger } from "@/lib/utils/logger";
+import { plausibleUpstreamTime } from "@/lib/utils/upstream-time";
+import { sarfRawRateSchema, sarfRawResponseSchema } from "./sarf-currency.schema";
 
-// Define the unique shape of the raw data from this specific source
-export interface SarfRawRate {
-  buying: number;
-  selling: number;
-  chart?: { times: number[]; buyingPrices: number[] };
-}
-export interface SarfRawResponse {
-  rates: { [currencyCode: string]: SarfRawRate };
-}
+// The unique shape of the raw data from this specific source
+export type SarfRawRate = z.infer<typeof sarfRawRateSchema>;
+export type SarfRawResponse = z.infer<typeof sarfRawResponseSchema>;
 
 /**
  * The adapter's only job is to translate the raw Sarf response
@@ -21,10 +18,15 @@ export class SarfCurrencyAdapter {
     this.logger = new Logger(`adapter:${sourceName}`);
   }
 
-  public adapt(rawData: SarfRawResponse): StandardizedData {
+  /**
+   * @param publishedAt When the upstream last changed the rates (its
+   * `Last-Modified` header); assets are stamped with the fetch time without it.
+   */
+  public adapt(rawData: SarfRawResponse, publishedAt?: number | null): StandardizedData {
     this.logger.info(`Adapting data from ${this.sourceName}`);
     const adapted: StandardizedData = { assets: {} };
-    const now = Date.now();
+    const fetchedAt = Date.now();
+    const observedAt = plausibleUpstreamTime(publishedAt, fetchedAt) ?? fetchedAt;
 
     for (const code in rawData.rates) {
       const rawRate = rawData.rates[code];
@@ -43,7 +45,7 @@ export class SarfCurrencyAdapter {
         name: `${code.toUpperCase()} to EGP`,
         type: "currency",
         source: this.sourceName,
-        timestamp: now,
+        timestamp: observedAt,
         rates: {
           parallel_market: {
             // This source provides parallel market rates
@@ -0,0 +1,13 @@
+import type { SourcePlugin } from "../source.registry";
+import { SARF_CURRENCY_ENDPOINT, SarfCurrencySource } from "./sarf-currency.source";
+
+export const sarfCurrencySource: SourcePlugin = {
+  name: "Sarf-EGP-API",
+  description: "Parallel-market EGP rates, with recent history, from the Sarf JSON feed.",
+  assets: ["*_EGP"],
+  rateTypes: ["parallel_market"],
+  regions: ["EG"],
+  endpoint: SARF_CURRENCY_ENDPOINT,
+  fixture: "src/lib/data-sources/sarf-currency/fixtures/rates.json",
+  create: (endpoint, http) => new SarfCurrencySource(endpoint, http),
+};
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+export const sarfRawRateSchema = z.object({
+  buying: z.number(),
+  selling: z.number(),
+  chart: z
+    .object({
+      times: z.array(z.number()),
+      buyingPrices: z.array(z.number()),
+    })
+    .refine((c) => c.times.length === c.buyingPrices.length, {
+      message: "times and buyingPrices differ in length",
+    })
+    .optional(),
+});
+
+export const sarfRawResponseSchema = z.object({
+  rates: z.record(z.string().regex(/^[a-z]{3}$/i), sarfRawRateSchema),
+});
@@ -1,35 +1,53 @@
-import { BaseDataSource } from "../base.data-source";
+import { BaseDataSource, SourceEndpoint } from "../base.data-source";
 import { StandardizedData } from "@/lib/core/data-contracts";
+import { HttpClient } from "@/lib/http/http.client";
 import { SarfCurrencyAdapter, SarfRawResponse } from "./sarf-currency.adapter";
+import { sarfRawResponseSchema } from "./sarf-currency.schema";
+
+export const SARF_CURRENCY_ENDPOINT: SourceEndpoint = {
+  url: "https://sarfegp.com/rates.json",
+  timeoutMs: 5000,
+  healthCheckTimeoutMs: 3000,
+};
 
 export class SarfCurrencySource extends BaseDataSource {
-  private readonly apiUrl = "https://sarfegp.com/rates.json";
+  protected readonly rawSchema = sarfRawResponseSchema;
   private adapter: SarfCurrencyAdapter;
+  // The Last-Modified time of the response being adapted.
+  private lastModified: number | null = null;
 
-  constructor() {
-    super("Sarf-EGP-API");
+  constructor(
+    private readonly endpoint: SourceEndpoint = SARF_CURRENCY_ENDPOINT,
+    http?: HttpClient
+  ) {
+    super("Sarf-EGP-API", http);
     this.adapter = new SarfCurrencyAdapter(this.name);
   }
 
-  protected async executeFetch(): Promise<SarfRawResponse> {
-    const response = await fetch(this.apiUrl, {
-      signal: AbortSignal.timeout(5000),
+  protected async executeFetch(): Promise<unknown> {
+    const response = await this.http.send({
+      url: this.endpoint.url,
+      timeoutMs: this.endpoint.timeoutMs,
     });
     if (!response.ok) throw new Error(`HTTP status ${response.status}`);
-    return response.json();
+    const lastModified = Date.parse(response.headers["last-modified"] ?? "");
+    this.lastModified = Number.isNaN(lastModified) ? null : lastModified;
+    return JSON.parse(response.body);
   }
 
   protected adaptToStandardizedFormat(rawData: unknown): StandardizedData {
-    // Delegate the complex transformation logic to the dedicated adapter
-    return this.adapter.adapt(rawData as SarfRawResponse);
+    // Delegate the complex transformation logic to the dedicated adapter.
+    // The payload has already been checked against `rawSchema`.
+    return this.adapter.adapt(rawData as SarfRawResponse, this.lastModified);
   }
 
   public async checkHealth(): Promise<void> {
     const startTime = Date.now();
     try {
-      const res = await fetch(this.apiUrl, {
+      const res = await this.http.send({
+        url: this.endpoint.url,
         method: "HEAD",
-        signal: AbortSignal.timeout(3000),
+        timeoutMs: this.endpoint.healthCheckTimeoutMs,
       });
       if (!res.ok)
         throw new Error(`Health check failed with status ${res.status}`);
@@ -0,0 +1,132 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import { bankOfAlgeriaDefinition } from "../bank-of-algeria/bank-of-algeria.definition";
+import { cbeOfficialDefinition } from "../cbe-official/cbe-official.definition";
+import { forexAlgerieDefinition } from "../forex-algerie/forex-algerie.definition";
+import { ScraperAdapter } from "./scraper.adapter";
+import { ScraperDefinition } from "./scraper.definition";
+
+const fixture = (module: string, file: string) =>
+  readFileSync(path.join(__dirname, "..", module, "fixtures", file), "utf8");
+
+// Fixed before the suites below adapt their fixtures, which happens at collection.
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+
+describe("ScraperAdapter", () => {
+  describe("with the CBE page (table mode)", () => {
+    const data = new ScraperAdapter(cbeOfficialDefinition).adapt(
+      fixture("cbe-official", "exchange-rates.html")
+    );
+
+    it("adapts every listed currency as an official EGP rate", () => {
+      expect(Object.keys(data.assets).sort()).toEqual(
+        ["AED", "CHF", "CNY", "EUR", "GBP", "KWD", "SAR", "USD"].map((c) => `${c}_EGP`)
+      );
+      expect(data.assets.USD_EGP.rates.official).toEqual({
+        buying: 48.52,
+        selling: 48.62,
+        midRate: 48.57,
+        unit: "EGP",
+      });
+      expect(data.assets.USD_EGP.source).toBe("CBE-Official-Web");
+    });
+
+    it("stamps assets with the page's 12-hour publication time in Cairo", () => {
+      expect(data.assets.USD_EGP.timestamp).toBe(Date.parse("2026-10-19T07:05:00Z"));
+    });
+  });
+
+  describe("with the Forex Algerie page (element mode)", () => {
+    const data = new ScraperAdapter(forexAlgerieDefinition).adapt(
+      fixture("forex-algerie", "forexalgerie.html")
+    );
+
+    it("adapts one parallel-market DZD rate per currency", () => {
+      expect(Object.keys(data.assets)).toHaveLength(forexAlgerieDefinition.currencies.length);
+      expect(data.assets.EUR_DZD.rates.parallel_market).toMatchObject({
+        buying: 262,
+        selling: 264,
+        midRate: 263,
+      });
+    });
+
+    it("reads the publication time in Algiers", () => {
+      expect(data.assets.EUR_DZD.timestamp).toBe(Date.parse("2026-10-19T08:30:00Z"));
+    });
+  });
+
+  describe("with the Bank of Algeria page", () => {
+    const data = new ScraperAdapter(bankOfAlgeriaDefinition).adapt(
+      fixture("bank-of-algeria", "cours-de-change.html")
+    );
+
+    it("parses decimal commas", () => {
+      expect(data.assets.USD_DZD.rates.official).toMatchObject({
+        buying: 129.7852,
+        selling: 129.805,
+      });
+    });
+
+    it("takes a date without a time as the start of that day", () => {
+      expect(data.assets.USD_DZD.timestamp).toBe(Date.parse("2026-10-18T23:00:00Z"));
+    });
+  });
+
+  describe("edge cases", () => {
+    const definition: ScraperDefinition = {
+      name: "Test-Web",
+      url: "https://example.com",
+      timeoutMs: 1000,
+      healthCheckTimeoutMs: 1000,
+      rateType: "parallel_market",
+      quoteCurrency: "DZD",
+      numberFormat: { decimalSeparator: ",", thousandsSeparator: " " },
+      currencies: [{ code: "USD", name: "Dollar US", labels: ["Dollar américain"] }],
+      extraction: {
+        mode: "table",
+        row: "tr",
+        currency: "td:nth-child(1)",
+        buying: "td:nth-child(2)",
+        selling: "td:nth-child(3)",
+      },
+      publishedAt: { selector: "p.date", timeZone: "Africa/Algiers" },
+    };
+    const page = (date: string, rows: string) =>
+      `<p class="date">${date}</p><table><tr><th>Devise</th></tr>${rows}</table>`;
+
+    it("matches currencies by label and skips unknown rows", () => {
+      const data = new ScraperAdapter(definition).adapt(
+        page(
+          "19/10/2026",
+          "<tr><td>Dollar américain</td><td>1 240,50</td><td>1 242,00</td></tr>" +
+            "<tr><td>Peso</td><td>1</td><td>2</td></tr>"
+        )
+      );
+      expect(Object.keys(data.assets)).toEqual(["USD_DZD"]);
+      expect(data.assets.USD_DZD.rates.parallel_market?.buying).toBe(1240.5);
+    });
+
+    it("drops a currency whose prices can't be read", () => {
+      const data = new ScraperAdapter(definition).adapt(
+        page("19/10/2026", "<tr><td>USD</td><td>n/a</td><td>242</td></tr>")
+      );
+      expect(data.assets).toEqual({});
+    });
+
+    it("falls back to the fetch time when the date is missing or in the future", () => {
+      const row = "<tr><td>USD</td><td>240</td><td>242</td></tr>";
+      const adapter = new ScraperAdapter(definition);
+      expect(adapter.adapt(page("bientôt", row)).assets.USD_DZD.timestamp).toBe(NOW);
+      expect(adapter.adapt(page("25/12/2026", row)).assets.USD_DZD.timestamp).toBe(NOW);
+    });
+
+    it("uses the fetch time when the definition has no publication time", () => {
+      const data = new ScraperAdapter({ ...definition, publishedAt: undefined }).adapt(
+        page("01/01/2020", "<tr><td>USD</td><td>240</td><td>242</td></tr>")
+      );
+      expect(data.assets.USD_DZD.timestamp).toBe(NOW);
+    });
+  });
+});
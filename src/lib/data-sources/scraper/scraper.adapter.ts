@@ -0,0 +1,155 @@
+import { load, CheerioAPI } from "cheerio";
+import { StandardizedData, StandardizedAsset } from "@/lib/core/data-contracts";
+import { Logger } from "@/lib/utils/logger";
+import {
+  parseDayFirstDateTime,
+  plausibleUpstreamTime,
+} from "@/lib/utils/upstream-time";
+import {
+  NumberFormat,
+  ScrapedCurrency,
+  ScraperDefinition,
+} from "./scraper.definition";
+
+// The raw data from a scraped source is the full HTML page content.
+export type ScraperRawData = string;
+
+interface ExtractedPrice {
+  currency: ScrapedCurrency;
+  buying: number | null;
+  selling: number | null;
+}
+
+/**
+ * Parses a page with CSS selectors according to a `ScraperDefinition`, so a
+ * new scraped site needs a definition rather than a new adapter class.
+ */
+export class ScraperAdapter {
+  private readonly logger: Logger;
+  constructor(private readonly definition: ScraperDefinition) {
+    this.logger = new Logger(`adapter:${definition.name}`);
+  }
+
+  public adapt(rawData: ScraperRawData): StandardizedData {
+    const { name, quoteCurrency, rateType } = this.definition;
+    this.logger.info(`Adapting data from ${name}`);
+    const $ = load(rawData);
+    const adapted: StandardizedData = { assets: {} };
+    const observedAt = this.extractPublishedAt($, Date.now());
+
+    const prices =
+      this.definition.extraction.mode === "element"
+        ? this.extractElements($)
+        : this.extractTable($);
+
+    for (const { currency, buying, selling } of prices) {
+      if (buying === null || selling === null) {
+        this.logger.warn(`Could not extract prices for ${currency.code}`);
+        continue;
+      }
+      const identifier = `${currency.code}_${quoteCurrency}`;
+      const asset: StandardizedAsset = {
+        identifier,
+        name: `${currency.name} to ${quoteCurrency}`,
+        type: "currency",
+        source: name,
+        timestamp: observedAt,
+        rates: {
+          [rateType]: {
+            buying,
+            selling,
+            midRate: (buying + selling) / 2,
+            unit: quoteCurrency,
+          },
+        },
+        historicalData: [], // Scraped pages carry no history
+      };
+      adapted.assets[identifier] = asset;
+    }
+    this.logger.info(`Adapted ${Object.keys(adapted.assets).length} assets.`);
+    return adapted;
+  }
+
+  /** The page's publication time, falling back to `fetchedAt`. */
+  private extractPublishedAt($: CheerioAPI, fetchedAt: number): number {
+    const extraction = this.definition.publishedAt;
+    if (!extraction) return fetchedAt;
+    const text = $(extraction.selector).first().text().trim();
+    const published = plausibleUpstreamTime(
+      parseDayFirstDateTime(text, extraction.timeZone),
+      fetchedAt
+    );
+    if (published === null) {
+      this.logger.warn(`Could not read the publication time from "${text}"; using the fetch time.`);
+      return fetchedAt;
+    }
+    return published;
+  }
+
+  private extractElements($: CheerioAPI): ExtractedPrice[] {
+    const extraction = this.definition.extraction;
+    if (extraction.mode !== "element") return [];
+    const select = (template: string, code: string) =>
+      this.parseNumber(
+        $(
+          template
+            .replace(/\{code\}/g, code)
+            .replace(/\{lower\}/g, code.toLowerCase())
+        )
+          .first()
+          .text()
+      );
+    return this.definition.currencies.map((currency) => ({
+      currency,
+      buying: select(extraction.buying, currency.code),
+      selling: select(extraction.selling, currency.code),
+    }));
+  }
+
+  private extractTable($: CheerioAPI): ExtractedPrice[] {
+    const extraction = this.definition.extraction;
+    if (extraction.mode !== "table") return [];
+    const prices: ExtractedPrice[] = [];
+    $(extraction.row).each((_, row) => {
+      const cell = (selector: string) =>
+        $(row).find(selector).first().text().trim();
+      const label = cell(extraction.currency);
+      if (!label) return; // Header rows have no matching cell.
+      const currency = this.matchCurrency(label);
+      if (!currency) {
+        this.logger.debug(`Ignoring unknown currency row: ${label}`);
+        return;
+      }
+      prices.push({
+        currency,
+        buying: this.parseNumber(cell(extraction.buying)),
+        selling: this.parseNumber(cell(extraction.selling)),
+      });
+    });
+    return prices;
+  }
+
+  private matchCurrency(label: string): ScrapedCurrency | undefined {
+    const needle = label.toLowerCase();
+    return this.definition.currencies.find((c) =>
+      [c.code, c.name, ...(c.labels ?? [])].some(
+        (candidate) => candidate.toLowerCase() === needle
+      )
+    );
+  }
+
+  private parseNumber(text: string): number | null {
+    const format: NumberFormat = this.definition.numberFormat;
+    let normalized = text.trim();
+    if (format.thousandsSeparator) {
+      normalized = normalized.split(format.thousandsSeparator).join("");
+    }
+    if (format.decimalSeparator === ",") {
+      normalized = normalized.replace(",", ".");
+    }
+    const match = normalized.match(/-?\d+(\.\d+)?/);
+    if (!match) return null;
+    const value = parseFloat(match[0]);
+    return isNaN(value) ? null : value;
+  }
+}
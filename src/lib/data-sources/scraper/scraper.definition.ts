@@ -0,0 +1,67 @@
+import { RateType } from "@/lib/core/data-contracts";
+
+/** How prices are written on the page, e.g. "1 234,56" or "1,234.56". */
+export interface NumberFormat {
+  decimalSeparator: "." | ",";
+  /** Characters to strip before parsing, e.g. " " or ",". */
+  thousandsSeparator?: string;
+}
+
+export interface ScrapedCurrency {
+  /** ISO code, used as the asset's base currency. */
+  code: string;
+  /** Display name as used in the asset name, e.g. "Dollar US". */
+  name: string;
+  /** Labels the page uses for this currency in table mode, besides the code. */
+  labels?: string[];
+}
+
+/**
+ * One element per price, found by a selector template. `{code}` and
+ * `{lower}` are replaced by the currency code in upper and lower case,
+ * e.g. `#{lower}Buy` → `#usdBuy`.
+ */
+export interface ElementExtraction {
+  mode: "element";
+  buying: string;
+  selling: string;
+}
+
+/**
+ * One table row per currency. `row` selects the rows; the other selectors are
+ * evaluated within each row. The `currency` cell is matched against each
+ * currency's code, name and labels (case-insensitively).
+ */
+export interface TableExtraction {
+  mode: "table";
+  row: string;
+  currency: string;
+  buying: string;
+  selling: string;
+}
+
+/**
+ * Where the page says when its prices were published: the first
+ * `DD/MM/YYYY` date in the selected element, with an optional time, read in
+ * `timeZone`; see `parseDayFirstDateTime`.
+ */
+export interface PublishedAtExtraction {
+  selector: string;
+  timeZone: string;
+}
+
+/** Everything needed to turn one scraped page into standardized assets. */
+export interface ScraperDefinition {
+  /** Source name, as reported in health and on every asset. */
+  name: string;
+  url: string;
+  timeoutMs: number;
+  healthCheckTimeoutMs: number;
+  rateType: RateType;
+  quoteCurrency: string;
+  numberFormat: NumberFormat;
+  currencies: ScrapedCurrency[];
+  extraction: ElementExtraction | TableExtraction;
+  /** Without it, or when the page's date can't be read, assets are stamped with the fetch time. */
+  publishedAt?: PublishedAtExtraction;
+}
@@ -0,0 +1,28 @@
+import type { SourcePlugin } from "../source.registry";
+import { ScraperDefinition } from "./scraper.definition";
+import { ScraperSource } from "./scraper.source";
+
+/**
+ * Registers a scraped page. The assets and rate type come from the
+ * definition; the endpoint from the config is applied over it.
+ */
+export function scraperPlugin(
+  definition: ScraperDefinition,
+  info: Pick<SourcePlugin, "description" | "regions" | "fixture">
+): SourcePlugin {
+  return {
+    ...info,
+    name: definition.name,
+    assets: definition.currencies.map(
+      ({ code }) => `${code}_${definition.quoteCurrency}`
+    ),
+    rateTypes: [definition.rateType],
+    endpoint: {
+      url: definition.url,
+      timeoutMs: definition.timeoutMs,
+      healthCheckTimeoutMs: definition.healthCheckTimeoutMs,
+    },
+    create: (endpoint, http) =>
+      new ScraperSource({ ...definition, ...endpoint }, http),
+  };
+}
@@ -0,0 +1,55 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { FixtureHttpClient } from "@/lib/http/fixture-http.client";
+import { bankOfAlgeriaDefinition } from "../bank-of-algeria/bank-of-algeria.definition";
+import { cbeOfficialDefinition } from "../cbe-official/cbe-official.definition";
+import { forexAlgerieDefinition } from "../forex-algerie/forex-algerie.definition";
+import { ScraperDefinition } from "./scraper.definition";
+import { ScraperSource } from "./scraper.source";
+
+const fixture = (module: string, file: string) =>
+  path.join(__dirname, "..", module, "fixtures", file);
+
+const sites: [ScraperDefinition, string][] = [
+  [forexAlgerieDefinition, fixture("forex-algerie", "forexalgerie.html")],
+  [cbeOfficialDefinition, fixture("cbe-official", "exchange-rates.html")],
+  [bankOfAlgeriaDefinition, fixture("bank-of-algeria", "cours-de-change.html")],
+];
+
+describe("ScraperSource", () => {
+  describe.each(sites.map(([definition, page]) => [definition.name, definition, page] as const))(
+    "with the %s definition",
+    (_name, definition, page) => {
+      const serving = new FixtureHttpClient({ [definition.url]: page });
+
+      it("fetches and adapts the page", async () => {
+        const source = new ScraperSource(definition, serving);
+        const data = await source.fetchStandardizedData();
+        const ids = Object.keys(data.assets);
+        expect(ids.length).toBeGreaterThan(0);
+        for (const id of ids) {
+          expect(id.endsWith(`_${definition.quoteCurrency}`)).toBe(true);
+          expect(data.assets[id].rates[definition.rateType]).toBeDefined();
+          expect(data.assets[id].source).toBe(definition.name);
+        }
+        expect(source.getHealth().status).toBe("healthy");
+      });
+
+      it("passes its health check while the site answers", async () => {
+        const source = new ScraperSource(definition, serving);
+        await source.checkHealth();
+        expect(source.getHealth().status).toBe("healthy");
+      });
+
+      it("fails the fetch and the health check on an error status", async () => {
+        const source = new ScraperSource(definition, new FixtureHttpClient({}));
+        await expect(source.fetchStandardizedData()).rejects.toThrow(/HTTP status 404/);
+        await source.checkHealth();
+        expect(source.getHealth()).toMatchObject({
+          status: "degraded",
+          message: "Health check failed with status 404",
+        });
+      });
+    }
+  );
+});
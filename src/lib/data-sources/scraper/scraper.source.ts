@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { BaseDataSource } from "../base.data-source";
+import { StandardizedData } from "@/lib/core/data-contracts";
+import { HttpClient } from "@/lib/http/http.client";
+import { ScraperAdapter, ScraperRawData } from "./scraper.adapter";
+import { ScraperDefinition } from "./scraper.definition";
+
+/** A data source for any HTML page described by a `ScraperDefinition`. */
+export class ScraperSource extends BaseDataSource {
+  private adapter: ScraperAdapter;
+  // The page's structure is checked by the definition's selectors instead.
+  protected readonly rawSchema = z.string().min(1, "Empty response body");
+
+  constructor(private readonly definition: ScraperDefinition, http?: HttpClient) {
+    super(definition.name, http);
+    this.adapter = new ScraperAdapter(definition);
+  }
+
+  protected async executeFetch(): Promise<ScraperRawData> {
+    const { url, timeoutMs } = this.definition;
+    this.logger.info(`Fetching HTML content from ${url}`);
+    // Use a timeout to prevent long hangs
+    const response = await this.http.send({ url, timeoutMs });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch from ${url}. HTTP status ${response.status}`);
+    }
+    return response.body;
+  }
+
+  protected adaptToStandardizedFormat(rawData: unknown): StandardizedData {
+    // The adapter is responsible for parsing the HTML string
+    return this.adapter.adapt(rawData as ScraperRawData);
+  }
+
+  public async checkHealth(): Promise<void> {
+    const { url, healthCheckTimeoutMs } = this.definition;
+    const startTime = Date.now();
+    try {
+      // A HEAD request is enough to ensure the site is reachable
+      const res = await this.http.send({
+        url,
+        method: "HEAD",
+        timeoutMs: healthCheckTimeoutMs,
+      });
+      if (!res.ok) {
+        throw new Error(`Health check failed with status ${res.status}`);
+      }
+      this.updateHealth(true, Date.now() - startTime, "Site is reachable.");
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown health check error";
+      this.updateHealth(false, Date.now() - startTime, message);
+    }
+  }
+}
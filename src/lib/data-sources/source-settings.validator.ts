@@ -0,0 +1,30 @@
+import { SourceConfig } from "@/lib/config/app-config";
+import { sourceConfigSchema } from "@/lib/config/config.schema";
+
+export type SourceSettingsResult =
+  | { ok: true; value: Partial<SourceConfig> }
+  | { ok: false; errors: string[] };
+
+/**
+ * Checks settings sent to the admin API against the same rules as the
+ * `sources` config. Every field is optional; `requireAny` rejects an empty
+ * object, for updates that would otherwise change nothing.
+ */
+export function validateSourceSettings(
+  body: unknown,
+  requireAny = true
+): SourceSettingsResult {
+  const result = sourceConfigSchema.partial().safeParse(body);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(body)"}: ${issue.message}`
+      ),
+    };
+  }
+  if (requireAny && Object.keys(result.data).length === 0) {
+    return { ok: false, errors: ["No settings given."] };
+  }
+  return { ok: true, value: result.data };
+}
@@ -0,0 +1,18 @@
+import { bankOfAlgeriaSource } from "./bank-of-algeria/bank-of-algeria.plugin";
+import { cbeOfficialSource } from "./cbe-official/cbe-official.plugin";
+import { forexAlgerieSource } from "./forex-algerie/forex-algerie.plugin";
+import { mockCommoditiesSource } from "./mock-commodities/mock-commodities.plugin";
+import { sarfCurrencySource } from "./sarf-currency/sarf-currency.plugin";
+import type { SourcePlugin } from "./source.registry";
+
+/**
+ * The sources that ship with the service. Whether each one runs, and in
+ * which order, is decided by `sources` in the config.
+ */
+export const BUILT_IN_SOURCES: SourcePlugin[] = [
+  sarfCurrencySource,
+  forexAlgerieSource,
+  cbeOfficialSource,
+  bankOfAlgeriaSource,
+  mockCommoditiesSource,
+];
@@ -0,0 +1,65 @@
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { FixtureHttpClient } from "@/lib/http/fixture-http.client";
+import { RecordingHttpClient } from "@/lib/http/recording-http.client";
+import { BUILT_IN_SOURCES } from "./source.catalog";
+
+// Every built-in source is recorded against its bundled fixture, then run
+// again from the recording alone: the offline path `HTTP_RECORDING=replay`
+// takes after capturing the real sites.
+describe("built-in sources against their fixtures", () => {
+  const directory = mkdtempSync(path.join(os.tmpdir(), "source-recordings-"));
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  const withFixtures = BUILT_IN_SOURCES.filter((plugin) => plugin.endpoint && plugin.fixture);
+
+  it("covers every source that talks to an upstream", () => {
+    expect(withFixtures.map((p) => p.name).sort()).toEqual([
+      "Bank-of-Algeria-Web",
+      "CBE-Official-Web",
+      "Forex-Algerie-Web",
+      "Sarf-EGP-API",
+    ]);
+  });
+
+  for (const plugin of withFixtures) {
+    it(`${plugin.name} produces its declared assets from a replayed recording`, async () => {
+      const endpoint = plugin.endpoint!;
+      const recorder = new RecordingHttpClient(
+        "record",
+        directory,
+        new FixtureHttpClient({ [endpoint.url]: plugin.fixture! })
+      );
+      const recorded = await plugin.create(endpoint, recorder).fetchStandardizedData();
+
+      const replayer = new RecordingHttpClient("replay", directory);
+      const source = plugin.create(endpoint, replayer);
+      const replayed = await source.fetchStandardizedData();
+
+      const ids = Object.keys(replayed.assets);
+      expect(ids.length).toBeGreaterThan(0);
+      // Declared assets may be patterns, like `*_EGP`.
+      const declared = plugin.assets.map(
+        (pattern) => new RegExp(`^${pattern.replace(/\*/g, "[A-Z]+")}$`)
+      );
+      for (const id of ids) {
+        expect(declared.some((pattern) => pattern.test(id)), id).toBe(true);
+        expect(replayed.assets[id].source).toBe(plugin.name);
+        expect(replayed.assets[id].rates).toEqual(recorded.assets[id].rates);
+      }
+      expect(source.getHealth().status).toBe("healthy");
+    });
+  }
+
+  it("fails a source whose upstream was never recorded", async () => {
+    const plugin = withFixtures[0];
+    const source = plugin.create(
+      { ...plugin.endpoint!, url: "https://unrecorded.example.com/" },
+      new RecordingHttpClient("replay", directory)
+    );
+    await expect(source.fetchStandardizedData()).rejects.toThrow(/No recording/);
+    expect(source.getHealth().status).toBe("degraded");
+  });
+});
@@ -0,0 +1,197 @@
+import { EventEmitter } from "events";
+import { AppConfig, SourceConfig } from "@/lib/config/app-config";
+import {
+  DataSourceHealth,
+  IDataSource,
+  SourcePluginInfo,
+} from "@/lib/core/data-contracts";
+import { FixtureHttpClient } from "@/lib/http/fixture-http.client";
+import { FetchHttpClient, HttpClient } from "@/lib/http/http.client";
+import { RecordingHttpClient } from "@/lib/http/recording-http.client";
+import { Logger } from "@/lib/utils/logger";
+import { SourceRegistry, toPluginInfo } from "./source.registry";
+
+/** A source's effective settings: its config merged over its plugin's defaults. */
+export interface ResolvedSource extends SourceConfig {
+  name: string;
+  /** Present when the source is served from a fixture (demo mode). */
+  fixture?: string;
+  refreshIntervalMs: number;
+}
+
+export interface ManagedSource {
+  plugin: SourcePluginInfo;
+  /** Absent for a registered source that has never been added. */
+  settings?: ResolvedSource;
+  /** Built and taking part in snapshots. */
+  active: boolean;
+  health?: DataSourceHealth;
+}
+
+interface BuiltSource {
+  source: IDataSource;
+  /** The endpoint it was built with; a different one means rebuilding. */
+  endpointKey: string;
+}
+
+/**
+ * Decides which registered sources run, and with what settings. It starts
+ * from `config.sources` and can be changed at runtime through `add` and
+ * `update`; runtime changes last until the next restart.
+ *
+ * A disabled source keeps its instance, so re-enabling it resumes with the
+ * same health and circuit-breaker state. Changing its endpoint rebuilds it.
+ */
+export class SourceManager {
+  private logger = new Logger("SourceManager");
+  private settings = new Map<string, SourceConfig>();
+  private built = new Map<string, BuiltSource>();
+  private events = new EventEmitter();
+  private live: HttpClient;
+
+  constructor(
+    private readonly registry: SourceRegistry,
+    private readonly config: AppConfig
+  ) {
+    const { recording, recordingsDir } = config.http;
+    this.live =
+      recording === "off"
+        ? new FetchHttpClient()
+        : new RecordingHttpClient(recording, recordingsDir, new FetchHttpClient());
+    if (recording !== "off" && config.mode !== "demo") {
+      this.logger.info(`HTTP ${recording} mode, using ${recordingsDir}`);
+    }
+    for (const [name, settings] of Object.entries(config.sources)) {
+      if (!registry.get(name)) {
+        this.logger.warn(`Ignoring config for unregistered source: ${name}`);
+        continue;
+      }
+      this.settings.set(name, settings);
+    }
+  }
+
+  /** Called after every change to the set of active sources or their settings. */
+  public onChange(listener: () => void): () => void {
+    this.events.on("change", listener);
+    return () => this.events.off("change", listener);
+  }
+
+  /** Every registered source; added ones first, in priority order. */
+  public list(): ManagedSource[] {
+    return this.registry
+      .list()
+      .map((plugin) => this.describe(plugin.name)!)
+      .sort(
+        (a, b) =>
+          (a.settings?.priority ?? Infinity) - (b.settings?.priority ?? Infinity)
+      );
+  }
+
+  /** Null when no plugin of that name is registered. */
+  public get(name: string): ManagedSource | null {
+    return this.describe(name);
+  }
+
+  public isAdded = (name: string): boolean => this.settings.has(name);
+
+  /** The enabled sources, built, in priority order. */
+  public getActiveSources(): IDataSource[] {
+    return this.resolveAll()
+      .filter((settings) => settings.enabled)
+      .map((settings) => this.build(settings));
+  }
+
+  public getSettings(): ResolvedSource[] {
+    return this.resolveAll();
+  }
+
+  /**
+   * Adds a registered source that isn't running yet. Unless given, it is
+   * enabled and ranked after every existing source.
+   * @returns Null when no plugin of that name is registered.
+   */
+  public add(name: string, settings: Partial<SourceConfig>): ManagedSource | null {
+    if (!this.registry.get(name)) return null;
+    if (this.settings.has(name)) throw new Error(`Source already added: ${name}`);
+    const lowest = Math.max(0, ...Array.from(this.settings.values(), (s) => s.priority));
+    this.settings.set(name, { enabled: true, priority: lowest + 10, ...settings });
+    this.logger.info(`Source added: ${name}`);
+    this.events.emit("change");
+    return this.describe(name);
+  }
+
+  /**
+   * Applies the given settings over an added source's current ones.
+   * @returns Null when the source hasn't been added.
+   */
+  public update(name: string, patch: Partial<SourceConfig>): ManagedSource | null {
+    const current = this.settings.get(name);
+    if (!current) return null;
+    this.settings.set(name, { ...current, ...patch });
+    if (patch.enabled !== undefined && patch.enabled !== current.enabled) {
+      this.logger.info(`Source ${patch.enabled ? "enabled" : "disabled"}: ${name}`);
+    }
+    this.events.emit("change");
+    return this.describe(name);
+  }
+
+  private describe(name: string): ManagedSource | null {
+    const plugin = this.registry.get(name);
+    if (!plugin) return null;
+    const settings = this.settings.has(name) ? this.resolve(name) : undefined;
+    const active = settings?.enabled ?? false;
+    return {
+      plugin: toPluginInfo(plugin),
+      settings,
+      active,
+      health: active ? this.build(settings!).getHealth() : undefined,
+    };
+  }
+
+  private resolveAll(): ResolvedSource[] {
+    return Array.from(this.settings.keys(), (name) => this.resolve(name)).sort(
+      (a, b) => a.priority - b.priority
+    );
+  }
+
+  private resolve(name: string): ResolvedSource {
+    const plugin = this.registry.get(name)!;
+    const settings = this.settings.get(name)!;
+    const endpoint = plugin.endpoint;
+    return {
+      ...settings,
+      name,
+      url: settings.url ?? endpoint?.url,
+      timeoutMs: settings.timeoutMs ?? endpoint?.timeoutMs,
+      healthCheckTimeoutMs: settings.healthCheckTimeoutMs ?? endpoint?.healthCheckTimeoutMs,
+      refreshIntervalMs: settings.refreshIntervalMs ?? this.config.cache.defaultTtlMs,
+      fixture: this.config.mode === "demo" ? plugin.fixture : undefined,
+    };
+  }
+
+  /**
+   * Reuses the source's instance unless its endpoint changed. In `demo` mode
+   * a source talks to a `FixtureHttpClient` serving its plugin's fixture, so
+   * the whole pipeline runs without network access; otherwise it goes
+   * through the live client, recording or replaying as `config.http` says.
+   */
+  private build(settings: ResolvedSource): IDataSource {
+    const plugin = this.registry.get(settings.name)!;
+    const endpoint = plugin.endpoint && {
+      url: settings.url!,
+      timeoutMs: settings.timeoutMs!,
+      healthCheckTimeoutMs: settings.healthCheckTimeoutMs!,
+    };
+    const endpointKey = JSON.stringify([endpoint, settings.fixture]);
+    const existing = this.built.get(settings.name);
+    if (existing?.endpointKey === endpointKey) return existing.source;
+
+    const http =
+      settings.fixture && endpoint
+        ? new FixtureHttpClient({ [endpoint.url]: settings.fixture })
+        : this.live;
+    const source = plugin.create(endpoint, http);
+    this.built.set(settings.name, { source, endpointKey });
+    return source;
+  }
+}
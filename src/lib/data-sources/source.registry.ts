@@ -0,0 +1,51 @@
+import { IDataSource, SourcePluginInfo } from "@/lib/core/data-contracts";
+import { HttpClient } from "@/lib/http/http.client";
+import { SourceEndpoint } from "./base.data-source";
+import { BUILT_IN_SOURCES } from "./source.catalog";
+
+/**
+ * A data-source module's entry in the registry: what it provides, plus a
+ * factory for its source.
+ */
+export interface SourcePlugin extends SourcePluginInfo {
+  /** The built-in endpoint, which the source's `SourceConfig` may override. */
+  endpoint?: SourceEndpoint;
+  /** The canned upstream response served in demo mode, relative to the working directory. */
+  fixture?: string;
+  /** `endpoint` is the effective one, present whenever the plugin has one. */
+  create(endpoint: SourceEndpoint | undefined, http: HttpClient): IDataSource;
+}
+
+/** Every data source the service knows how to build, by name. */
+export class SourceRegistry {
+  private plugins = new Map<string, SourcePlugin>();
+
+  constructor(plugins: SourcePlugin[] = []) {
+    plugins.forEach((plugin) => this.register(plugin));
+  }
+
+  public register(plugin: SourcePlugin): void {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Source plugin already registered: ${plugin.name}`);
+    }
+    this.plugins.set(plugin.name, plugin);
+  }
+
+  public get = (name: string): SourcePlugin | undefined => this.plugins.get(name);
+
+  public list = (): SourcePlugin[] => Array.from(this.plugins.values());
+}
+
+/** Strips the factory and endpoint, leaving what the admin API shows. */
+export function toPluginInfo(plugin: SourcePlugin): SourcePluginInfo {
+  const { name, description, assets, rateTypes, regions } = plugin;
+  return { name, description, assets, rateTypes, regions };
+}
+
+let registry: SourceRegistry | null = null;
+
+/** The shared registry, holding the built-in sources. */
+export function getSourceRegistry(): SourceRegistry {
+  if (!registry) registry = new SourceRegistry(BUILT_IN_SOURCES);
+  return registry;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { ExportRow } from "@/lib/core/data-contracts";
+import { ExportTooLargeError } from "@/lib/core/errors";
+import { ExportOptions, formatExport, MAX_COLUMNAR_ROWS } from "./export.formatter";
+
+const row = (overrides: Partial<ExportRow> = {}): ExportRow => ({
+  identifier: "USD_EGP",
+  name: "US Dollar to Egyptian Pound",
+  type: "currency",
+  rateType: "parallel_market",
+  source: "Sarf-EGP-API",
+  timestamp: Date.parse("2026-10-19T07:05:00Z"),
+  buying: 49.35,
+  selling: 49.6,
+  midRate: 49.475,
+  unit: "EGP",
+  merged: true,
+  ...overrides,
+});
+
+async function* batches(...groups: ExportRow[][]) {
+  for (const group of groups) yield group;
+}
+
+const csv: ExportOptions = { format: "csv", delimiter: ",", timeZone: "UTC" };
+
+async function render(rows: ExportRow[][], options: ExportOptions): Promise<string> {
+  let out = "";
+  for await (const chunk of formatExport(batches(...rows), options)) out += chunk;
+  return out;
+}
+
+describe("formatExport", () => {
+  describe("csv", () => {
+    it("writes a header and one CRLF-terminated line per row", async () => {
+      const out = await render([[row()], [], [row({ merged: false, type: undefined })]], csv);
+      expect(out.split("\r\n")).toEqual([
+        "identifier,name,type,rateType,source,timestamp,buying,selling,midRate,unit,merged",
+        "USD_EGP,US Dollar to Egyptian Pound,currency,parallel_market,Sarf-EGP-API," +
+          "2026-10-19T07:05:00.000Z,49.35,49.6,49.475,EGP,true",
+        "USD_EGP,US Dollar to Egyptian Pound,,parallel_market,Sarf-EGP-API," +
+          "2026-10-19T07:05:00.000Z,49.35,49.6,49.475,EGP,false",
+        "",
+      ]);
+    });
+
+    it("quotes fields holding the delimiter, quotes or line breaks", async () => {
+      const out = await render([[row({ name: 'Euro, "single currency"\nzone' })]], csv);
+      expect(out).toContain(',"Euro, ""single currency""\nzone",');
+    });
+
+    it("quotes by the chosen delimiter only", async () => {
+      const out = await render([[row({ name: "Dollar; US, cash" })]], { ...csv, delimiter: ";" });
+      const line = out.split("\r\n")[1];
+      expect(line.startsWith('USD_EGP;"Dollar; US, cash";currency;')).toBe(true);
+    });
+
+    it("writes prices with exactly the requested decimals", async () => {
+      const out = await render([[row({ buying: 49, selling: 49.605 })]], { ...csv, precision: 2 });
+      expect(out.split("\r\n")[1]).toContain(",49.00,49.60,49.48,");
+    });
+
+    it("writes timestamps with the offset of the requested zone", async () => {
+      const out = await render([[row()]], { ...csv, timeZone: "Africa/Cairo" });
+      expect(out).toContain(",2026-10-19T10:05:00.000+03:00,");
+    });
+  });
+
+  it("writes ndjson with every column, absent ones as null", async () => {
+    const out = await render([[row({ type: undefined, merged: undefined })]], {
+      ...csv,
+      format: "ndjson",
+      precision: 1,
+    });
+    expect(out.endsWith("\n")).toBe(true);
+    expect(JSON.parse(out)).toEqual({
+      identifier: "USD_EGP",
+      name: "US Dollar to Egyptian Pound",
+      type: null,
+      rateType: "parallel_market",
+      source: "Sarf-EGP-API",
+      timestamp: "2026-10-19T07:05:00.000Z",
+      buying: 49.4,
+      selling: 49.6,
+      midRate: 49.5,
+      unit: "EGP",
+      merged: null,
+    });
+  });
+
+  describe("columnar", () => {
+    const columnar = { ...csv, format: "columnar" } as const;
+
+    it("writes one array per column plus the row count", async () => {
+      const out = JSON.parse(
+        await render([[row()], [row({ source: "Other", buying: 50 })]], columnar)
+      );
+      expect(out.rowCount).toBe(2);
+      expect(out.source).toEqual(["Sarf-EGP-API", "Other"]);
+      expect(out.buying).toEqual([49.35, 50]);
+    });
+
+    it("refuses to collect more than MAX_COLUMNAR_ROWS rows", async () => {
+      const full = Array.from({ length: MAX_COLUMNAR_ROWS }, () => row());
+      await expect(render([full, [row()]], columnar)).rejects.toBeInstanceOf(
+        ExportTooLargeError
+      );
+    });
+  });
+});
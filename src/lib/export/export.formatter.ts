@@ -0,0 +1,113 @@
+import { ExportFormat, ExportRow } from "@/lib/core/data-contracts";
+import { ExportTooLargeError } from "@/lib/core/errors";
+import { toZonedIsoString } from "@/lib/utils/zoned-time";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** CSV field separator. */
+  delimiter: string;
+  /** Decimal places for prices; full precision when absent. */
+  precision?: number;
+  /** IANA zone timestamps are written in, as ISO-8601 with its offset. */
+  timeZone: string;
+}
+
+/** Column order of every format. */
+export const EXPORT_COLUMNS: readonly (keyof ExportRow)[] = [
+  "identifier",
+  "name",
+  "type",
+  "rateType",
+  "source",
+  "timestamp",
+  "buying",
+  "selling",
+  "midRate",
+  "unit",
+  "merged",
+];
+
+/** Rows the columnar layout may collect in memory before writing. */
+export const MAX_COLUMNAR_ROWS = 100_000;
+
+const PRICE_COLUMNS = new Set<keyof ExportRow>(["buying", "selling", "midRate"]);
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  columnar: "application/json; charset=utf-8",
+};
+
+type Cell = string | number | boolean | null;
+
+/**
+ * Writes batches of rows in the requested format, yielding one chunk per
+ * batch so a long history range never has to be held as one string. CSV and
+ * NDJSON are written as the batches arrive; the columnar layout has to see
+ * every row before it can write its first column, so it collects them first
+ * and throws `ExportTooLargeError` past `MAX_COLUMNAR_ROWS`.
+ */
+export async function* formatExport(
+  batches: AsyncIterable<ExportRow[]>,
+  options: ExportOptions
+): AsyncGenerator<string> {
+  const cell = (row: ExportRow, column: keyof ExportRow): Cell => {
+    const value = row[column];
+    if (value === undefined) return null;
+    if (column === "timestamp") return toZonedIsoString(value as number, options.timeZone);
+    if (PRICE_COLUMNS.has(column) && options.precision !== undefined) {
+      return Number((value as number).toFixed(options.precision));
+    }
+    return value;
+  };
+
+  if (options.format === "csv") {
+    const line = (cells: Cell[]) =>
+      cells.map((c) => csvField(c, options)).join(options.delimiter) + "\r\n";
+    yield line([...EXPORT_COLUMNS]);
+    for await (const batch of batches) {
+      if (batch.length === 0) continue;
+      yield batch.map((row) => line(EXPORT_COLUMNS.map((c) => cell(row, c)))).join("");
+    }
+    return;
+  }
+
+  if (options.format === "ndjson") {
+    for await (const batch of batches) {
+      if (batch.length === 0) continue;
+      yield batch
+        .map((row) => {
+          const record: Record<string, Cell> = {};
+          for (const column of EXPORT_COLUMNS) record[column] = cell(row, column);
+          return JSON.stringify(record) + "\n";
+        })
+        .join("");
+    }
+    return;
+  }
+
+  const rows: ExportRow[] = [];
+  for await (const batch of batches) {
+    if (rows.length + batch.length > MAX_COLUMNAR_ROWS) {
+      throw new ExportTooLargeError(rows.length + batch.length, MAX_COLUMNAR_ROWS);
+    }
+    rows.push(...batch);
+  }
+  yield `{"rowCount":${rows.length}`;
+  for (const column of EXPORT_COLUMNS) {
+    yield `,${JSON.stringify(column)}:${JSON.stringify(rows.map((row) => cell(row, column)))}`;
+  }
+  yield "}\n";
+}
+
+/** RFC 4180 quoting: fields holding the delimiter, a quote or a line break are quoted. */
+function csvField(value: Cell, options: ExportOptions): string {
+  if (value === null) return "";
+  const text =
+    typeof value === "number" && options.precision !== undefined
+      ? value.toFixed(options.precision)
+      : String(value);
+  return text.includes(options.delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
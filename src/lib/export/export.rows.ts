@@ -0,0 +1,79 @@
+import {
+  ExportRow,
+  HistoricalRateRecord,
+  RateType,
+  StandardizedAsset,
+  StandardizedRate,
+} from "@/lib/core/data-contracts";
+import { AssetRegistry } from "@/lib/registry/asset.registry";
+
+/**
+ * The rows of one merged asset: for each rate type, the quote of every
+ * source that was considered, flagged by whether the served rate uses it.
+ * Combined rates (`median`, `average`) list each combined quote as merged.
+ */
+export function snapshotRows(asset: StandardizedAsset): ExportRow[] {
+  const rows: ExportRow[] = [];
+  const row = (
+    rateType: RateType,
+    source: string,
+    timestamp: number,
+    rate: StandardizedRate,
+    merged: boolean
+  ): ExportRow => ({
+    identifier: asset.identifier,
+    name: asset.name,
+    type: asset.type,
+    rateType,
+    source,
+    timestamp,
+    buying: rate.buying,
+    selling: rate.selling,
+    midRate: rate.midRate,
+    unit: rate.unit,
+    merged,
+  });
+
+  for (const [key, rate] of Object.entries(asset.rates)) {
+    if (!rate) continue;
+    const rateType = key as RateType;
+    const provenance = asset.provenance?.[rateType];
+    if (!provenance) {
+      rows.push(row(rateType, asset.source, asset.timestamp, rate, true));
+      continue;
+    }
+    if (provenance.combined) {
+      for (const quote of provenance.combined) {
+        rows.push(row(rateType, quote.source, quote.timestamp, quote.rate, true));
+      }
+    } else {
+      rows.push(row(rateType, provenance.sources[0], provenance.timestamp, rate, true));
+    }
+    for (const quote of provenance.rejected) {
+      rows.push(row(rateType, quote.source, quote.timestamp, quote.rate, false));
+    }
+  }
+  return rows;
+}
+
+/** One row per stored record, named after the registry's definition of its asset. */
+export function historyRows(
+  records: HistoricalRateRecord[],
+  registry: AssetRegistry
+): ExportRow[] {
+  return records.map((record) => {
+    const definition = registry.resolve(record.assetId);
+    return {
+      identifier: record.assetId,
+      name: definition?.names.en ?? record.assetId,
+      type: definition?.type,
+      rateType: record.rateType,
+      source: record.source,
+      timestamp: record.timestamp,
+      buying: record.buying,
+      selling: record.selling,
+      midRate: record.midRate,
+      unit: record.unit,
+    };
+  });
+}
@@ -0,0 +1,33 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { HttpClient, HttpRequest, HttpResponse } from "./http.client";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".html": "text/html; charset=utf-8",
+};
+
+/**
+ * Answers requests from files on disk instead of the network. Each URL maps
+ * to one fixture file, resolved against the working directory; any other URL
+ * gets a 404.
+ */
+export class FixtureHttpClient implements HttpClient {
+  constructor(private readonly routes: Record<string, string>) {}
+
+  public async send(request: HttpRequest): Promise<HttpResponse> {
+    const fixture = this.routes[request.url];
+    if (!fixture) {
+      return { status: 404, ok: false, headers: {}, body: "" };
+    }
+    const body = await fs.readFile(path.resolve(fixture), "utf8");
+    return {
+      status: 200,
+      ok: true,
+      headers: {
+        "content-type": CONTENT_TYPES[path.extname(fixture)] ?? "text/plain",
+      },
+      body: request.method === "HEAD" ? "" : body,
+    };
+  }
+}
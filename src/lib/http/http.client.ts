@@ -0,0 +1,46 @@
+export interface HttpRequest {
+  url: string;
+  method?: "GET" | "HEAD" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+}
+
+export interface HttpResponse {
+  status: number;
+  ok: boolean;
+  headers: Record<string, string>;
+  /** Empty for HEAD requests. */
+  body: string;
+}
+
+/**
+ * How data sources reach upstream servers. Going through this rather than
+ * `fetch` directly lets a source be pointed at canned responses (demo mode,
+ * tests) without changing its code.
+ */
+export interface HttpClient {
+  send(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/** The real network, via the global `fetch`. */
+export class FetchHttpClient implements HttpClient {
+  public async send(request: HttpRequest): Promise<HttpResponse> {
+    const response = await fetch(request.url, {
+      method: request.method ?? "GET",
+      headers: request.headers,
+      body: request.body,
+      signal: AbortSignal.timeout(request.timeoutMs),
+    });
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    return {
+      status: response.status,
+      ok: response.ok,
+      headers,
+      body: request.method === "HEAD" ? "" : await response.text(),
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { HttpClient, HttpRequest, HttpResponse } from "./http.client";
+import { RecordingHttpClient } from "./recording-http.client";
+
+class StubHttpClient implements HttpClient {
+  public requests: HttpRequest[] = [];
+  constructor(private readonly response: HttpResponse) {}
+  public async send(request: HttpRequest): Promise<HttpResponse> {
+    this.requests.push(request);
+    return this.response;
+  }
+}
+
+describe("RecordingHttpClient", () => {
+  let directory: string;
+  const request: HttpRequest = { url: "https://example.com/rates.json?x=1", timeoutMs: 1000 };
+  const response: HttpResponse = {
+    status: 200,
+    ok: true,
+    headers: { "content-type": "application/json", "set-cookie": "session=secret" },
+    body: '{"rates":{}}',
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), "recordings-"));
+  });
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  it("replays what it recorded without going upstream", async () => {
+    const upstream = new StubHttpClient(response);
+    await new RecordingHttpClient("record", directory, upstream).send(request);
+    expect(upstream.requests).toHaveLength(1);
+
+    const replayed = await new RecordingHttpClient("replay", directory).send(request);
+    expect(replayed.status).toBe(200);
+    expect(replayed.body).toBe(response.body);
+    expect(replayed.headers["content-type"]).toBe("application/json");
+  });
+
+  it("does not store session headers", async () => {
+    await new RecordingHttpClient("record", directory, new StubHttpClient(response)).send(request);
+    const replayed = await new RecordingHttpClient("replay", directory).send(request);
+    expect(replayed.headers["set-cookie"]).toBeUndefined();
+  });
+
+  it("keeps requests that differ by method or query apart", async () => {
+    const client = new RecordingHttpClient("record", directory, new StubHttpClient(response));
+    await client.send(request);
+    await client.send({ ...request, method: "HEAD" });
+    await client.send({ ...request, url: "https://example.com/rates.json?x=2" });
+    expect(readdirSync(directory)).toHaveLength(3);
+  });
+
+  it("fails loudly on a request that was never recorded", async () => {
+    const client = new RecordingHttpClient("replay", directory);
+    await expect(client.send(request)).rejects.toThrow(/No recording for GET/);
+  });
+});
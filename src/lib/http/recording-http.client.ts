@@ -0,0 +1,88 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { HttpClient, HttpRequest, HttpResponse } from "./http.client";
+
+/**
+ * `record` passes requests to the network and saves every response;
+ * `replay` answers only from saved responses.
+ */
+export type RecordingMode = "record" | "replay";
+
+/** One saved exchange, as stored on disk. */
+export interface Recording {
+  request: { method: string; url: string };
+  response: HttpResponse;
+  recordedAt: string;
+}
+
+// Never written to disk: they identify a session, not the data.
+const OMITTED_HEADERS = new Set(["set-cookie", "authorization"]);
+
+/**
+ * Records upstream responses as fixture files and plays them back, so a
+ * source can be captured once against the real site and then exercised
+ * offline. Each request is stored as one JSON file named after its method,
+ * host and path plus a hash of the full request, under `directory`.
+ *
+ * Replaying a request that was never recorded throws rather than answering
+ * 404, so a missing fixture can't pass for an upstream outage.
+ */
+export class RecordingHttpClient implements HttpClient {
+  constructor(
+    private readonly mode: RecordingMode,
+    private readonly directory: string,
+    private readonly upstream?: HttpClient
+  ) {
+    if (mode === "record" && !upstream) {
+      throw new Error("Recording needs an upstream client.");
+    }
+  }
+
+  public async send(request: HttpRequest): Promise<HttpResponse> {
+    const file = this.fileFor(request);
+    if (this.mode === "replay") {
+      let content: string;
+      try {
+        content = await fs.readFile(file, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          throw new Error(
+            `No recording for ${request.method ?? "GET"} ${request.url} (expected ${file})`
+          );
+        }
+        throw error;
+      }
+      return (JSON.parse(content) as Recording).response;
+    }
+
+    const response = await this.upstream!.send(request);
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (!OMITTED_HEADERS.has(name.toLowerCase())) headers[name] = value;
+    }
+    const recording: Recording = {
+      request: { method: request.method ?? "GET", url: request.url },
+      response: { ...response, headers },
+      recordedAt: new Date().toISOString(),
+    };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(recording, null, 2) + "\n", "utf8");
+    return response;
+  }
+
+  /** e.g. `GET-sarfegp.com-rates.json-1a2b3c4d.json` */
+  public fileFor(request: HttpRequest): string {
+    const method = request.method ?? "GET";
+    const url = new URL(request.url);
+    const slug = `${url.host}${url.pathname}`
+      .replace(/[^A-Za-z0-9.]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 80);
+    const hash = createHash("sha1")
+      .update(`${method} ${request.url}\n${request.body ?? ""}`)
+      .digest("hex")
+      .slice(0, 8);
+    return path.resolve(this.directory, `${method}-${slug}-${hash}.json`);
+  }
+}
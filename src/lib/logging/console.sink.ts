@@ -0,0 +1,27 @@
+import { LogEntry, LogSink, serializeEntry } from "./log.types";
+
+export type ConsoleLogFormat = "json" | "pretty";
+
+/**
+ * Writes to the console: one JSON object per line for log collectors, or
+ * a readable line for local development.
+ */
+export class ConsoleSink implements LogSink {
+  public readonly name = "console";
+
+  constructor(private readonly format: ConsoleLogFormat) {}
+
+  public write(entry: LogEntry): void {
+    if (this.format === "json") {
+      console[entry.level](serializeEntry(entry));
+      return;
+    }
+    const correlation = entry.correlationId ? ` (${entry.correlationId})` : "";
+    console[entry.level](
+      `[${new Date(entry.timestamp).toISOString()}] [${entry.level.toUpperCase()}] [${
+        entry.component
+      }]${correlation} ${entry.message}`,
+      entry.data ?? ""
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+interface LogContext {
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Runs `fn` with a correlation ID that every log entry written during it,
+ * including from async work it starts, is tagged with.
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return storage.run({ correlationId }, fn);
+}
+
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
+
+export const newCorrelationId = (): string => randomUUID();
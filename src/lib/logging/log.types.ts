@@ -0,0 +1,59 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+
+export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+export interface LogEntry {
+  /** Increases by one per entry within a process; used as the paging cursor. */
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  component: string;
+  message: string;
+  /** Shared by every entry logged while handling one request or job run. */
+  correlationId?: string;
+  data?: unknown;
+}
+
+/** Where log entries go. `write` must not throw. */
+export interface LogSink {
+  readonly name: string;
+  write(entry: LogEntry): void;
+  /** Flushes anything buffered. */
+  close?(): Promise<void>;
+}
+
+export interface LogQuery {
+  /** Minimum level. */
+  level?: LogLevel;
+  /** Exact component names; a trailing `*` matches a prefix, e.g. `DataSource:*`. */
+  components?: string[];
+  correlationId?: string;
+  /** Inclusive epoch milliseconds. */
+  from?: number;
+  to?: number;
+  /** Only entries older than this entry id, to fetch the next page. */
+  before?: number;
+  limit?: number;
+}
+
+/** The newest `limit` matching entries, oldest first. */
+export interface LogPage {
+  entries: LogEntry[];
+  /** Matching entries in the buffer, across all pages. */
+  total: number;
+  /** Pass as `before` for the next (older) page; absent on the last one. */
+  nextCursor?: number;
+}
+
+/** JSON for an entry, with errors in `data` reduced to their name and message. */
+export function serializeEntry(entry: LogEntry): string {
+  return JSON.stringify(entry, (_key, value) =>
+    value instanceof Error ? { name: value.name, message: value.message } : value
+  );
+}
@@ -0,0 +1,68 @@
+import {
+  LOG_LEVEL_PRIORITY,
+  LogEntry,
+  LogPage,
+  LogQuery,
+  LogSink,
+} from "./log.types";
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Keeps the most recent entries in a ring buffer, for `Logger.getLogs`. */
+export class MemorySink implements LogSink {
+  public readonly name = "memory";
+  private entries: (LogEntry | undefined)[];
+  private next = 0;
+  private count = 0;
+
+  constructor(private readonly capacity: number) {
+    this.entries = new Array(capacity);
+  }
+
+  public write(entry: LogEntry): void {
+    if (this.capacity === 0) return;
+    this.entries[this.next] = entry;
+    this.next = (this.next + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  public query(query: LogQuery = {}): LogPage {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const matches = this.ordered().filter((entry) => matchesQuery(entry, query));
+    const olderThanCursor =
+      query.before === undefined
+        ? matches
+        : matches.filter((entry) => entry.id < query.before!);
+    const entries = olderThanCursor.slice(-limit);
+    const page: LogPage = { entries, total: matches.length };
+    if (olderThanCursor.length > entries.length) page.nextCursor = entries[0].id;
+    return page;
+  }
+
+  /** Oldest first. */
+  private ordered(): LogEntry[] {
+    const start = this.count < this.capacity ? 0 : this.next;
+    const result: LogEntry[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.entries[(start + i) % this.capacity]!);
+    }
+    return result;
+  }
+}
+
+function matchesQuery(entry: LogEntry, query: LogQuery): boolean {
+  if (query.level && LOG_LEVEL_PRIORITY[entry.level] < LOG_LEVEL_PRIORITY[query.level]) {
+    return false;
+  }
+  if (query.correlationId && entry.correlationId !== query.correlationId) return false;
+  if (query.from !== undefined && entry.timestamp < query.from) return false;
+  if (query.to !== undefined && entry.timestamp > query.to) return false;
+  if (query.components && query.components.length > 0) {
+    return query.components.some((pattern) =>
+      pattern.endsWith("*")
+        ? entry.component.startsWith(pattern.slice(0, -1))
+        : entry.component === pattern
+    );
+  }
+  return true;
+}
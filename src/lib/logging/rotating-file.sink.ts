@@ -0,0 +1,74 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { LogEntry, LogSink, serializeEntry } from "./log.types";
+
+export interface RotatingFileOptions {
+  path: string;
+  /** The file is rotated before it would grow past this. */
+  maxBytes: number;
+  /** Rotated files kept besides the current one: `app.log.1` is the newest. */
+  maxFiles: number;
+}
+
+/**
+ * Appends NDJSON entries to a file, rotating it by size. Writes are queued
+ * so entries land in order; a failed write is reported once on stderr and
+ * the entry dropped, since a log sink must never fail its caller.
+ */
+export class RotatingFileSink implements LogSink {
+  public readonly name = "file";
+  private writeQueue: Promise<void> = Promise.resolve();
+  private size: number | null = null;
+  private failing = false;
+
+  constructor(private readonly options: RotatingFileOptions) {}
+
+  public write(entry: LogEntry): void {
+    const line = serializeEntry(entry) + "\n";
+    this.writeQueue = this.writeQueue.then(() =>
+      this.append(line).then(
+        () => {
+          this.failing = false;
+        },
+        (error) => {
+          if (!this.failing) {
+            console.error(`Log file ${this.options.path} is not writable:`, error);
+          }
+          this.failing = true;
+        }
+      )
+    );
+  }
+
+  public close(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  private async append(line: string): Promise<void> {
+    const bytes = Buffer.byteLength(line);
+    if (this.size === null) {
+      await fs.mkdir(path.dirname(this.options.path), { recursive: true });
+      this.size = await fs
+        .stat(this.options.path)
+        .then((stat) => stat.size)
+        .catch(() => 0);
+    }
+    if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+    await fs.appendFile(this.options.path, line, "utf8");
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const file = this.options.path;
+    const { maxFiles } = this.options;
+    await fs.rm(`${file}.${maxFiles}`, { force: true });
+    for (let n = maxFiles - 1; n >= 1; n--) {
+      await fs.rename(`${file}.${n}`, `${file}.${n + 1}`).catch(() => undefined);
+    }
+    if (maxFiles > 0) await fs.rename(file, `${file}.1`);
+    else await fs.rm(file, { force: true });
+  }
+}
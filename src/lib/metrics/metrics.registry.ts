@@ -0,0 +1,203 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+/**
+ * A named metric with a fixed set of label names. Each distinct combination
+ * of label values is its own series.
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: MetricLabels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    readonly labelNames: readonly string[] = []
+  ) {}
+
+  /** Drops every series, e.g. before a collector sets the current ones. */
+  public reset(): void {
+    this.series.clear();
+  }
+
+  protected seriesFor(labels: MetricLabels, initial: () => T): { value: T } {
+    const key = this.labelNames.map((name) => labels[name] ?? "").join("\u0000");
+    let entry = this.series.get(key);
+    if (!entry) {
+      const picked: MetricLabels = {};
+      for (const name of this.labelNames) picked[name] = labels[name] ?? "";
+      entry = { labels: picked, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  public render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    this.series.forEach(({ labels, value }) => lines.push(...this.sample(labels, value)));
+    return lines;
+  }
+
+  protected abstract sample(labels: MetricLabels, value: T): string[];
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string, labelNames?: readonly string[]) {
+    super(name, help, "counter", labelNames);
+  }
+
+  public inc(labels: MetricLabels = {}, by = 1): void {
+    this.seriesFor(labels, () => 0).value += by;
+  }
+
+  protected sample(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string, labelNames?: readonly string[]) {
+    super(name, help, "gauge", labelNames);
+  }
+
+  public set(labels: MetricLabels, value: number): void {
+    this.seriesFor(labels, () => 0).value = value;
+  }
+
+  protected sample(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  /** Per bucket, not cumulative; rendered cumulatively. */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    private readonly buckets: readonly number[]
+  ) {
+    super(name, help, "histogram", labelNames);
+  }
+
+  public observe(labels: MetricLabels, value: number): void {
+    const series = this.seriesFor(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    const bucket = this.buckets.findIndex((upper) => value <= upper);
+    if (bucket !== -1) series.counts[bucket]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  /** Starts a timer; call the result to observe the elapsed seconds. */
+  public startTimer(labels: MetricLabels = {}): (extra?: MetricLabels) => void {
+    const start = process.hrtime.bigint();
+    return (extra = {}) =>
+      this.observe(
+        { ...labels, ...extra },
+        Number(process.hrtime.bigint() - start) / 1e9
+      );
+  }
+
+  protected sample(labels: MetricLabels, value: HistogramValue): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((upper, i) => {
+      cumulative += value.counts[i];
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(upper) })} ${cumulative}`
+      );
+    });
+    lines.push(
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`
+    );
+    return lines;
+  }
+}
+
+/**
+ * Holds every metric and renders them in the Prometheus text exposition
+ * format. Values that are cheaper to read than to track, such as breaker
+ * states, are set by collectors that run just before each render.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+  private collectors: (() => void)[] = [];
+
+  public counter(name: string, help: string, labelNames?: readonly string[]): Counter {
+    return this.add(new Counter(name, help, labelNames));
+  }
+
+  public gauge(name: string, help: string, labelNames?: readonly string[]): Gauge {
+    return this.add(new Gauge(name, help, labelNames));
+  }
+
+  public histogram(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    buckets: readonly number[]
+  ): Histogram {
+    return this.add(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /** @returns A function that removes the collector. */
+  public addCollector(collect: () => void): () => void {
+    this.collectors.push(collect);
+    return () => {
+      this.collectors = this.collectors.filter((c) => c !== collect);
+    };
+  }
+
+  public render(): string {
+    for (const collect of this.collectors) collect();
+    const lines: string[] = [];
+    this.metrics.forEach((metric) => lines.push(...metric.render()));
+    return lines.join("\n") + "\n";
+  }
+
+  private add<M extends Counter | Gauge | Histogram>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+let registry: MetricsRegistry | null = null;
+
+export function getMetricsRegistry(): MetricsRegistry {
+  if (!registry) registry = new MetricsRegistry();
+  return registry;
+}
@@ -0,0 +1,68 @@
+import { getMetricsRegistry } from "./metrics.registry";
+
+const registry = getMetricsRegistry();
+
+const FETCH_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const REQUEST_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Every metric the pipeline records, exposed at `/api/v1/metrics`. */
+export const pipelineMetrics = {
+  sourceFetches: registry.counter(
+    "pipeline_source_fetches_total",
+    "Fetch attempts per source, including ones refused by an open circuit.",
+    ["source", "outcome"]
+  ),
+  sourceFetchErrors: registry.counter(
+    "pipeline_source_fetch_errors_total",
+    "Failed fetches per source, by reason.",
+    ["source", "reason"]
+  ),
+  sourceFetchDuration: registry.histogram(
+    "pipeline_source_fetch_duration_seconds",
+    "Time to fetch, validate and adapt one source, retries included.",
+    ["source", "outcome"],
+    FETCH_BUCKETS
+  ),
+  sourceQuarantined: registry.counter(
+    "pipeline_source_quarantined_total",
+    "Records quarantined per source, by reason.",
+    ["source", "reason"]
+  ),
+  sourceBreakerState: registry.gauge(
+    "pipeline_source_breaker_state",
+    "1 for each source's current circuit-breaker state.",
+    ["source", "state"]
+  ),
+  cacheLookups: registry.counter(
+    "pipeline_cache_lookups_total",
+    "Source cache lookups while building a snapshot: hit (fresh), stale (served while refreshing) or miss.",
+    ["source", "result"]
+  ),
+  cacheEntryAge: registry.gauge(
+    "pipeline_cache_entry_age_seconds",
+    "Age of the cache entry each source contributed to the latest snapshot.",
+    ["source"]
+  ),
+  snapshotAge: registry.gauge(
+    "pipeline_snapshot_age_seconds",
+    "Age of the oldest data in the latest snapshot."
+  ),
+  snapshotStale: registry.gauge(
+    "pipeline_snapshot_stale",
+    "1 if the latest snapshot served any source past its TTL."
+  ),
+  merges: registry.counter(
+    "pipeline_merges_total",
+    "Times a new merged snapshot was built from changed source data."
+  ),
+  mergedAssets: registry.gauge(
+    "pipeline_merged_assets",
+    "Assets in the latest merged snapshot."
+  ),
+  httpRequestDuration: registry.histogram(
+    "pipeline_http_request_duration_seconds",
+    "API request handling time, by route pattern.",
+    ["method", "route", "status"],
+    REQUEST_BUCKETS
+  ),
+};
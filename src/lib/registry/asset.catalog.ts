@@ -0,0 +1,77 @@
+import { AssetDefinition, LocalizedNames } from "@/lib/core/data-contracts";
+
+const CURRENCY_NAMES: Record<string, LocalizedNames> = {
+  USD: { en: "US Dollar", ar: "الدولار الأمريكي", fr: "Dollar américain" },
+  EUR: { en: "Euro", ar: "اليورو", fr: "Euro" },
+  GBP: { en: "British Pound", ar: "الجنيه الإسترليني", fr: "Livre sterling" },
+  CHF: { en: "Swiss Franc", ar: "الفرنك السويسري", fr: "Franc suisse" },
+  CAD: { en: "Canadian Dollar", ar: "الدولار الكندي", fr: "Dollar canadien" },
+  AUD: { en: "Australian Dollar", ar: "الدولار الأسترالي", fr: "Dollar australien" },
+  JPY: { en: "Japanese Yen", ar: "الين الياباني", fr: "Yen japonais" },
+  CNY: { en: "Chinese Yuan", ar: "اليوان الصيني", fr: "Yuan chinois" },
+  TRY: { en: "Turkish Lira", ar: "الليرة التركية", fr: "Livre turque" },
+  SAR: { en: "Saudi Riyal", ar: "الريال السعودي", fr: "Riyal saoudien" },
+  AED: { en: "UAE Dirham", ar: "الدرهم الإماراتي", fr: "Dirham émirati" },
+  KWD: { en: "Kuwaiti Dinar", ar: "الدينار الكويتي", fr: "Dinar koweïtien" },
+  QAR: { en: "Qatari Riyal", ar: "الريال القطري", fr: "Riyal qatari" },
+  BHD: { en: "Bahraini Dinar", ar: "الدينار البحريني", fr: "Dinar bahreïni" },
+  OMR: { en: "Omani Rial", ar: "الريال العماني", fr: "Rial omanais" },
+  JOD: { en: "Jordanian Dinar", ar: "الدينار الأردني", fr: "Dinar jordanien" },
+  TND: { en: "Tunisian Dinar", ar: "الدينار التونسي", fr: "Dinar tunisien" },
+  MAD: { en: "Moroccan Dirham", ar: "الدرهم المغربي", fr: "Dirham marocain" },
+  EGP: { en: "Egyptian Pound", ar: "الجنيه المصري", fr: "Livre égyptienne" },
+  DZD: { en: "Algerian Dinar", ar: "الدينار الجزائري", fr: "Dinar algérien" },
+};
+
+/** Which currencies are quoted against each local currency. */
+const QUOTED_PAIRS: Record<string, string[]> = {
+  EGP: ["USD", "EUR", "GBP", "CHF", "CAD", "AUD", "JPY", "CNY", "SAR", "AED", "KWD", "QAR", "BHD", "OMR", "JOD"],
+  DZD: ["USD", "EUR", "GBP", "CHF", "CAD", "CNY", "TRY", "SAR", "AED", "TND", "MAD"],
+};
+
+function currencyPair(base: string, quote: string): AssetDefinition {
+  const from = CURRENCY_NAMES[base];
+  const to = CURRENCY_NAMES[quote];
+  return {
+    identifier: `${base}_${quote}`,
+    type: "currency",
+    base,
+    quote,
+    decimals: 4,
+    names: {
+      en: `${from.en} to ${to.en}`,
+      ar: `${from.ar} مقابل ${to.ar}`,
+      fr: `${from.fr} / ${to.fr}`,
+    },
+    aliases: [],
+  };
+}
+
+/** Every asset the pipeline knows about. Add an entry here before adding a source for it. */
+export const ASSET_CATALOG: AssetDefinition[] = [
+  ...Object.entries(QUOTED_PAIRS).flatMap(([quote, bases]) =>
+    bases.map((base) => currencyPair(base, quote))
+  ),
+  {
+    identifier: "OIL_WTI",
+    type: "commodity",
+    base: "WTI",
+    quote: "USD",
+    decimals: 2,
+    names: {
+      en: "WTI Crude Oil",
+      ar: "خام غرب تكساس الوسيط",
+      fr: "Pétrole brut WTI",
+    },
+    aliases: ["WTI_USD", "CL"],
+  },
+  {
+    identifier: "GOLD_XAU",
+    type: "commodity",
+    base: "XAU",
+    quote: "USD",
+    decimals: 2,
+    names: { en: "Gold Spot", ar: "الذهب الفوري", fr: "Or au comptant" },
+    aliases: ["XAU_USD", "GOLD"],
+  },
+];
@@ -0,0 +1,97 @@
+import {
+  AssetDefinition,
+  AssetIdentifier,
+  AssetType,
+  StandardizedData,
+  UnknownAssetReport,
+} from "@/lib/core/data-contracts";
+import { Logger } from "@/lib/utils/logger";
+import { ASSET_CATALOG } from "./asset.catalog";
+
+// "usd/egp", "USD-EGP" and "USDEGP" all look up as USDEGP.
+const normalizeKey = (id: string): string =>
+  id.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/**
+ * The canonical list of assets. Source output is mapped onto it: identifiers
+ * given as an alias are rewritten to the canonical one and names come from
+ * the registry, so every source describes an asset the same way. Assets the
+ * registry doesn't know pass through unchanged but are reported.
+ */
+export class AssetRegistry {
+  private logger = new Logger("AssetRegistry");
+  private byKey = new Map<string, AssetDefinition>();
+  private unknown = new Map<string, UnknownAssetReport>();
+
+  constructor(private readonly definitions: AssetDefinition[]) {
+    for (const definition of definitions) {
+      for (const id of [definition.identifier, ...definition.aliases]) {
+        const key = normalizeKey(id);
+        const existing = this.byKey.get(key);
+        if (existing && existing !== definition) {
+          throw new Error(
+            `Asset registry conflict: "${id}" maps to both ${existing.identifier} and ${definition.identifier}.`
+          );
+        }
+        this.byKey.set(key, definition);
+      }
+    }
+  }
+
+  /** Looks up an identifier or any of its aliases. */
+  public resolve(idOrAlias: string): AssetDefinition | undefined {
+    return this.byKey.get(normalizeKey(idOrAlias));
+  }
+
+  public list(filter: { type?: AssetType; quote?: string } = {}): AssetDefinition[] {
+    return this.definitions.filter(
+      (d) =>
+        (!filter.type || d.type === filter.type) &&
+        (!filter.quote || d.quote === filter.quote)
+    );
+  }
+
+  /** Identifiers sources produced that aren't in the registry, per source. */
+  public getUnknown = (): UnknownAssetReport[] =>
+    Array.from(this.unknown.values());
+
+  /** Returns a copy of one source's output mapped onto canonical assets. */
+  public canonicalize(data: StandardizedData, sourceName: string): StandardizedData {
+    const mapped: StandardizedData = { ...data, assets: {} };
+    for (const asset of Object.values(data.assets)) {
+      const definition = this.resolve(asset.identifier);
+      if (!definition) {
+        this.reportUnknown(asset.identifier, sourceName);
+        mapped.assets[asset.identifier] = asset;
+        continue;
+      }
+      mapped.assets[definition.identifier] = {
+        ...asset,
+        identifier: definition.identifier,
+        name: definition.names.en,
+        type: definition.type,
+      };
+    }
+    return mapped;
+  }
+
+  private reportUnknown(identifier: AssetIdentifier, source: string): void {
+    const key = `${source}|${identifier}`;
+    const now = Date.now();
+    const report = this.unknown.get(key);
+    if (report) {
+      report.lastSeenAt = now;
+      return;
+    }
+    this.unknown.set(key, { identifier, source, firstSeenAt: now, lastSeenAt: now });
+    this.logger.warn(`Source ${source} produced unregistered asset ${identifier}.`);
+  }
+}
+
+let registry: AssetRegistry | null = null;
+
+/** The process-wide registry built from `ASSET_CATALOG`. */
+export function getAssetRegistry(): AssetRegistry {
+  if (!registry) registry = new AssetRegistry(ASSET_CATALOG);
+  return registry;
+}
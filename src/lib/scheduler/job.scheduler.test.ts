@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { JobDefinition, JobScheduler, MissedRunPolicy } from "./job.scheduler";
+import { isWithinMarketHours, MarketHours } from "./market-hours";
+
+const MINUTE_MS = 60 * 1000;
+// A Monday, 10:00 in Tokyo.
+const MONDAY = Date.parse("2026-10-19T01:00:00Z");
+
+/** A job whose runs stay in progress until `finish` is called. */
+function manualJob(missedRunPolicy: MissedRunPolicy, extra: Partial<JobDefinition> = {}) {
+  const pending: (() => void)[] = [];
+  const job = {
+    runs: 0,
+    finish: () => pending.shift()?.(),
+    definition: {
+      name: "refresh",
+      intervalMs: MINUTE_MS,
+      missedRunPolicy,
+      run: () => {
+        job.runs++;
+        return new Promise<void>((resolve) => pending.push(resolve));
+      },
+      ...extra,
+    } as JobDefinition,
+  };
+  return job;
+}
+
+describe("JobScheduler", () => {
+  let scheduler: JobScheduler | undefined;
+  const start = (definition: JobDefinition) => {
+    scheduler = new JobScheduler();
+    scheduler.register(definition);
+    scheduler.start();
+    return scheduler;
+  };
+  const status = () => scheduler!.getStatus()[0];
+
+  afterEach(() => {
+    scheduler?.getStatus().forEach((job) => scheduler?.unregister(job.name));
+    scheduler = undefined;
+    vi.useRealTimers();
+  });
+
+  it("runs at start and then once per interval", async () => {
+    vi.useFakeTimers({ now: MONDAY });
+    const job = manualJob("skip");
+    start(job.definition);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(job.runs).toBe(1);
+
+    job.finish();
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(job.runs).toBe(2);
+    expect(status()).toMatchObject({ running: true, nextRunAt: MONDAY + 2 * MINUTE_MS });
+  });
+
+  it("never overlaps a run that is still going, and skips the slots it covered", async () => {
+    vi.useFakeTimers({ now: MONDAY });
+    const job = manualJob("skip");
+    start(job.definition);
+    await vi.advanceTimersByTimeAsync(3 * MINUTE_MS);
+    expect(job.runs).toBe(1);
+    expect(status().missedRuns).toBe(3);
+
+    job.finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(job.runs).toBe(1);
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(job.runs).toBe(2);
+  });
+
+  it("makes up for slots missed while running with one run under `run_once`", async () => {
+    vi.useFakeTimers({ now: MONDAY });
+    const job = manualJob("run_once");
+    start(job.definition);
+    await vi.advanceTimersByTimeAsync(3 * MINUTE_MS);
+    expect(job.runs).toBe(1);
+
+    job.finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(job.runs).toBe(2);
+    expect(status().missedRuns).toBe(3);
+  });
+
+  it.each([
+    ["skip", 1],
+    ["run_once", 2],
+  ] as const)("handles a timer that fired late under `%s`", async (policy, runs) => {
+    vi.useFakeTimers({ now: MONDAY });
+    const job = manualJob(policy);
+    start(job.definition);
+    await vi.advanceTimersByTimeAsync(0);
+    job.finish();
+
+    // The clock jumps without the timer firing, as when the process is suspended.
+    vi.setSystemTime(MONDAY + 3.5 * MINUTE_MS);
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(status().missedRuns).toBe(3);
+    expect(job.runs).toBe(runs);
+    expect(status().nextRunAt).toBe(MONDAY + 5 * MINUTE_MS);
+  });
+
+  it("skips runs outside market hours in the market's time zone, except the first", async () => {
+    // 14:58 in Tokyo, two minutes before the close.
+    vi.useFakeTimers({ now: MONDAY + (4 * 60 + 58) * MINUTE_MS });
+    const job = manualJob("skip", {
+      marketHours: { timeZone: "Asia/Tokyo", days: [1, 2, 3, 4, 5], open: "10:00", close: "15:00" },
+    });
+    start(job.definition);
+    await vi.advanceTimersByTimeAsync(0);
+    job.finish();
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(job.runs).toBe(2);
+    job.finish();
+
+    await vi.advanceTimersByTimeAsync(3 * MINUTE_MS);
+    expect(job.runs).toBe(2);
+    expect(status().skippedOutsideMarketHours).toBe(3);
+  });
+
+  it("waits for a run in progress when stopped", async () => {
+    vi.useFakeTimers({ now: MONDAY });
+    const job = manualJob("skip");
+    start(job.definition);
+    await vi.advanceTimersByTimeAsync(0);
+
+    let stopped = false;
+    const stopping = scheduler!.stop().then(() => (stopped = true));
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(stopped).toBe(false);
+    expect(job.runs).toBe(1);
+
+    job.finish();
+    await stopping;
+    expect(status().nextRunAt).toBeUndefined();
+  });
+});
+
+describe("isWithinMarketHours", () => {
+  const tokyo: MarketHours = {
+    timeZone: "Asia/Tokyo",
+    days: [1, 2, 3, 4, 5],
+    open: "10:00",
+    close: "15:00",
+  };
+
+  it("reads the wall clock and weekday in the market's time zone", () => {
+    expect(isWithinMarketHours(tokyo, MONDAY)).toBe(true);
+    expect(isWithinMarketHours(tokyo, MONDAY - MINUTE_MS)).toBe(false);
+    expect(isWithinMarketHours(tokyo, MONDAY + 5 * 60 * MINUTE_MS)).toBe(false);
+    // Sunday 23:00 UTC is already Monday 08:00 in Tokyo, but before the open.
+    expect(isWithinMarketHours(tokyo, Date.parse("2026-10-18T23:00:00Z"))).toBe(false);
+    // Saturday 10:00 in Tokyo.
+    expect(isWithinMarketHours(tokyo, Date.parse("2026-10-24T01:00:00Z"))).toBe(false);
+  });
+
+  it("treats a market without open and close times as open all day", () => {
+    const allDay: MarketHours = { timeZone: "Asia/Tokyo", days: [1] };
+    // Monday 00:30 in Tokyo, still Sunday in UTC.
+    expect(isWithinMarketHours(allDay, Date.parse("2026-10-18T15:30:00Z"))).toBe(true);
+    expect(isWithinMarketHours(allDay, Date.parse("2026-10-18T14:30:00Z"))).toBe(false);
+  });
+});
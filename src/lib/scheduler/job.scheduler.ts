@@ -0,0 +1,198 @@
+import { newCorrelationId, runWithCorrelationId } from "@/lib/logging/log.context";
+import { Logger } from "@/lib/utils/logger";
+import { isWithinMarketHours, MarketHours } from "./market-hours";
+
+/**
+ * What to do about runs whose slot passed without them: the timer fired late
+ * (a blocked event loop, a suspended process) or the previous run was still
+ * going. `skip` drops them and waits for the next slot; `run_once` makes up
+ * for any number of them with a single immediate run.
+ */
+export const MISSED_RUN_POLICIES = ["skip", "run_once"] as const;
+export type MissedRunPolicy = (typeof MISSED_RUN_POLICIES)[number];
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  missedRunPolicy: MissedRunPolicy;
+  /** Runs falling outside these hours are skipped. */
+  marketHours?: MarketHours;
+  run: () => Promise<void>;
+}
+
+export interface JobStatus {
+  name: string;
+  intervalMs: number;
+  running: boolean;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastSuccessAt?: number;
+  lastError?: string;
+  missedRuns: number;
+  skippedOutsideMarketHours: number;
+}
+
+interface JobState {
+  definition: JobDefinition;
+  status: JobStatus;
+  timer?: ReturnType<typeof setTimeout>;
+  current?: Promise<void>;
+  catchUp: boolean;
+  hasRun: boolean;
+}
+
+/**
+ * Runs registered jobs on fixed intervals, never overlapping a job with
+ * itself. Slots are aligned to the first run, so a slow run doesn't push
+ * every later run back. Every job runs once as soon as the scheduler starts,
+ * regardless of market hours, so a fresh process has data to serve.
+ */
+export class JobScheduler {
+  private logger = new Logger("JobScheduler");
+  private jobs = new Map<string, JobState>();
+  private started = false;
+  // Runs of unregistered jobs, which `stop()` still waits for.
+  private draining = new Set<Promise<void>>();
+
+  public register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job already registered: ${definition.name}`);
+    }
+    const state: JobState = {
+      definition,
+      status: {
+        name: definition.name,
+        intervalMs: definition.intervalMs,
+        running: false,
+        missedRuns: 0,
+        skippedOutsideMarketHours: 0,
+      },
+      catchUp: false,
+      hasRun: false,
+    };
+    this.jobs.set(definition.name, state);
+    if (this.started) this.schedule(state, Date.now());
+  }
+
+  /**
+   * Removes a job. A run in progress is left to finish, but nothing further
+   * is scheduled.
+   */
+  public unregister(name: string): boolean {
+    const state = this.jobs.get(name);
+    if (!state) return false;
+    clearTimeout(state.timer);
+    state.timer = undefined;
+    state.catchUp = false;
+    this.jobs.delete(name);
+    const current = state.current;
+    if (current) {
+      this.draining.add(current);
+      void current.finally(() => this.draining.delete(current));
+    }
+    return true;
+  }
+
+  public start(): void {
+    if (this.started) return;
+    this.started = true;
+    const now = Date.now();
+    this.jobs.forEach((state) => this.schedule(state, now));
+    this.logger.info(`Scheduler started with ${this.jobs.size} jobs.`);
+  }
+
+  /** Cancels pending runs and waits for any that are in progress. */
+  public async stop(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+    const running: Promise<void>[] = Array.from(this.draining);
+    this.jobs.forEach((state) => {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+      state.status.nextRunAt = undefined;
+      if (state.current) running.push(state.current);
+    });
+    await Promise.all(running);
+    this.logger.info("Scheduler stopped.");
+  }
+
+  public isRunning = (): boolean => this.started;
+
+  public getStatus = (): JobStatus[] =>
+    Array.from(this.jobs.values()).map((state) => ({ ...state.status }));
+
+  private schedule(state: JobState, at: number): void {
+    state.status.nextRunAt = at;
+    state.timer = setTimeout(
+      () => this.tick(state),
+      Math.max(0, at - Date.now())
+    );
+    // The scheduler alone shouldn't keep a process alive.
+    state.timer.unref?.();
+  }
+
+  private tick(state: JobState): void {
+    if (!this.started) return;
+    const { definition, status } = state;
+    const slot = status.nextRunAt ?? Date.now();
+    const now = Date.now();
+    const lateBy = Math.floor((now - slot) / definition.intervalMs);
+
+    let next = slot + definition.intervalMs;
+    while (next <= now) next += definition.intervalMs;
+    this.schedule(state, next);
+
+    if (state.current) {
+      status.missedRuns++;
+      state.catchUp = definition.missedRunPolicy === "run_once";
+      this.logger.debug(`Job ${definition.name} is still running; slot missed.`);
+      return;
+    }
+    if (lateBy > 0) {
+      status.missedRuns += lateBy;
+      this.logger.warn(`Job ${definition.name} missed ${lateBy} run(s).`);
+      if (definition.missedRunPolicy === "skip") return;
+    }
+    this.runJob(state, now);
+  }
+
+  private runJob(state: JobState, now: number): void {
+    const { definition, status } = state;
+    if (
+      state.hasRun &&
+      definition.marketHours &&
+      !isWithinMarketHours(definition.marketHours, now)
+    ) {
+      status.skippedOutsideMarketHours++;
+      this.logger.debug(`Job ${definition.name} skipped outside market hours.`);
+      return;
+    }
+
+    state.hasRun = true;
+    status.running = true;
+    status.lastRunAt = now;
+    // Everything logged during the run, down to the data sources, shares an ID.
+    state.current = runWithCorrelationId(
+      `${definition.name}#${newCorrelationId()}`,
+      () => definition.run()
+    )
+      .then(() => {
+        status.lastSuccessAt = Date.now();
+        status.lastError = undefined;
+      })
+      .catch((error) => {
+        status.lastError = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Job ${definition.name} failed.`, {
+          error: status.lastError,
+        });
+      })
+      .finally(() => {
+        status.running = false;
+        state.current = undefined;
+        if (state.catchUp && this.started) {
+          state.catchUp = false;
+          this.runJob(state, Date.now());
+        }
+      });
+  }
+}
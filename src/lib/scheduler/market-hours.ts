@@ -0,0 +1,48 @@
+/** Days of the week as returned by `Date#getUTCDay`: 0 is Sunday. */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * When a market publishes new prices, in its own time zone. `open` and
+ * `close` are "HH:MM" wall-clock times; omit both for a market that is open
+ * all day on its trading days.
+ */
+export interface MarketHours {
+  timeZone: string;
+  days: Weekday[];
+  open?: string;
+  close?: string;
+}
+
+const WEEKDAYS: Record<string, Weekday> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+export function isWithinMarketHours(hours: MarketHours, at: number): boolean {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: hours.timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(at));
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+
+  const day = WEEKDAYS[part("weekday")];
+  if (!hours.days.includes(day)) return false;
+
+  const minute = Number(part("hour")) * 60 + Number(part("minute"));
+  const open = hours.open ? toMinutes(hours.open) : 0;
+  const close = hours.close ? toMinutes(hours.close) : 24 * 60;
+  return minute >= open && minute < close;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + (m || 0);
+}
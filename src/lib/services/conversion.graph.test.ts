@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { StandardizedData } from "@/lib/core/data-contracts";
+import { makeAsset, makeData } from "@/lib/testing/builders";
+import { ConversionGraph, DERIVED_SOURCE } from "./conversion.graph";
+
+const quote = (identifier: string, buying: number, selling: number, timestamp = 1_000) =>
+  makeAsset(identifier, "A", "official", buying, selling, timestamp);
+
+const graph = (data: StandardizedData, pivots = ["USD", "EUR"]) =>
+  new ConversionGraph(data, "official", pivots);
+
+describe("ConversionGraph", () => {
+  it("returns a quoted pair as it is", () => {
+    const usdEgp = quote("USD_EGP", 48, 50);
+    const resolved = graph(makeData(usdEgp)).resolve("USD", "EGP");
+    expect(resolved).toBe(usdEgp);
+    expect(resolved?.derivation).toBeUndefined();
+  });
+
+  it("inverts a pair read backwards, swapping buying and selling", () => {
+    const resolved = graph(makeData(quote("USD_EGP", 48, 50))).resolve("EGP", "USD");
+    expect(resolved?.source).toBe(DERIVED_SOURCE);
+    expect(resolved?.rates.official?.buying).toBeCloseTo(1 / 50, 12);
+    expect(resolved?.rates.official?.selling).toBeCloseTo(1 / 48, 12);
+    expect(resolved?.rates.official?.midRate).toBeCloseTo(1 / 49, 12);
+    expect(resolved?.rates.official?.unit).toBe("USD");
+    expect(resolved?.derivation).toEqual({
+      rateType: "official",
+      path: ["EGP", "USD"],
+      steps: [{ assetId: "USD_EGP", inverted: true }],
+    });
+  });
+
+  it("triangulates through an intermediate, as fresh as its oldest input", () => {
+    const resolved = graph(
+      makeData(quote("USD_EGP", 48, 50, 2_000), quote("USD_DZD", 134, 136, 1_500))
+    ).resolve("EGP", "DZD");
+    const rate = resolved?.rates.official;
+    expect(rate?.buying).toBeCloseTo(134 / 50, 12);
+    expect(rate?.selling).toBeCloseTo(136 / 48, 12);
+    expect(resolved?.timestamp).toBe(1_500);
+    expect(resolved?.derivation?.path).toEqual(["EGP", "USD", "DZD"]);
+  });
+
+  it("takes the path with the fewest legs", () => {
+    const resolved = graph(
+      makeData(
+        quote("EGP_GBP", 0.016, 0.017),
+        quote("GBP_EUR", 1.15, 1.17),
+        quote("EUR_DZD", 145, 147),
+        quote("EGP_SAR", 0.077, 0.078),
+        quote("SAR_DZD", 35, 36)
+      ),
+      []
+    ).resolve("EGP", "DZD");
+    expect(resolved?.derivation?.path).toEqual(["EGP", "SAR", "DZD"]);
+  });
+
+  it("prefers pivot currencies among equally short paths", () => {
+    const data = makeData(
+      quote("EGP_SAR", 0.077, 0.078),
+      quote("SAR_DZD", 35, 36),
+      quote("USD_EGP", 48, 50),
+      quote("USD_DZD", 134, 136)
+    );
+    expect(graph(data).resolve("EGP", "DZD")?.derivation?.path).toEqual(["EGP", "USD", "DZD"]);
+    expect(graph(data, ["SAR"]).resolve("EGP", "DZD")?.derivation?.path).toEqual([
+      "EGP",
+      "SAR",
+      "DZD",
+    ]);
+  });
+
+  it("gives up on paths longer than three legs", () => {
+    const data = makeData(
+      quote("AAA_BBB", 1, 1),
+      quote("BBB_CCC", 1, 1),
+      quote("CCC_DDD", 1, 1),
+      quote("DDD_EEE", 1, 1)
+    );
+    expect(graph(data).resolve("AAA", "DDD")?.derivation?.steps).toHaveLength(3);
+    expect(graph(data).resolve("AAA", "EEE")).toBeNull();
+  });
+
+  it("returns null for unknown currencies and the same currency", () => {
+    const data = makeData(quote("USD_EGP", 48, 50));
+    expect(graph(data).resolve("USD", "JPY")).toBeNull();
+    expect(graph(data).resolve("USD", "USD")).toBeNull();
+  });
+
+  it("never converts through or to a non-currency asset", () => {
+    const oil = makeAsset("OIL_USD", "A", "official", 78, 79);
+    oil.type = "commodity";
+    const wti = makeAsset("OIL_WTI", "A", "official", 78, 79);
+    wti.type = "commodity";
+    const data = makeData(oil, wti, quote("USD_EGP", 48, 50));
+    expect(graph(data).resolve("OIL", "USD")).toBeNull();
+    expect(graph(data).resolve("OIL", "WTI")).toBeNull();
+    expect(graph(data).resolve("OIL", "EGP")).toBeNull();
+  });
+
+  it("only uses the requested rate type", () => {
+    const data = makeData(quote("USD_EGP", 48, 50));
+    expect(new ConversionGraph(data, "parallel_market", []).resolve("EGP", "USD")).toBeNull();
+  });
+});
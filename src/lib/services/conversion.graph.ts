@@ -0,0 +1,147 @@
+import {
+  AssetIdentifier,
+  DerivationStep,
+  RateType,
+  StandardizedAsset,
+  StandardizedData,
+  StandardizedRate,
+} from "@/lib/core/data-contracts";
+
+/** Longest chain of quoted pairs a cross rate may be built from. */
+const MAX_LEGS = 3;
+
+/** Source name stamped on assets that were computed rather than quoted. */
+export const DERIVED_SOURCE = "derived";
+
+interface Edge {
+  to: string;
+  step: DerivationStep;
+  rate: StandardizedRate;
+  timestamp: number;
+}
+
+/**
+ * A currency graph over one merged snapshot, for a single rate type. Each
+ * quoted `BASE_QUOTE` pair is an edge in both directions (the reverse edge
+ * inverts the rate), and missing pairs are triangulated through up to two
+ * intermediate currencies, preferring the configured pivots.
+ */
+export class ConversionGraph {
+  private edges = new Map<string, Edge[]>();
+
+  constructor(
+    private readonly data: StandardizedData,
+    private readonly rateType: RateType,
+    private readonly pivots: string[]
+  ) {
+    for (const asset of Object.values(data.assets)) {
+      if (asset.type !== "currency") continue;
+      const rate = asset.rates[rateType];
+      const [base, quote] = asset.identifier.split("_");
+      if (!rate || !base || !quote) continue;
+      this.addEdge(base, {
+        to: quote,
+        step: { assetId: asset.identifier, inverted: false },
+        rate,
+        timestamp: asset.timestamp,
+      });
+      this.addEdge(quote, {
+        to: base,
+        step: { assetId: asset.identifier, inverted: true },
+        rate: invert(rate, base),
+        timestamp: asset.timestamp,
+      });
+    }
+  }
+
+  /**
+   * Returns the quoted asset for `from_to` if one exists, otherwise a derived
+   * asset built from the shortest path. Returns null when no path exists.
+   */
+  public resolve(from: string, to: string): StandardizedAsset | null {
+    const identifier: AssetIdentifier = `${from}_${to}`;
+    const quoted = this.data.assets[identifier];
+    // A commodity such as `OIL_WTI` looks like a pair but converts nothing.
+    if (quoted?.type === "currency" && quoted.rates[this.rateType]) return quoted;
+    if (from === to) return null;
+
+    const path = this.findPath(from, to);
+    if (!path) return null;
+
+    const rate = path.reduce<StandardizedRate>(
+      (acc, edge) => ({
+        buying: acc.buying * edge.rate.buying,
+        selling: acc.selling * edge.rate.selling,
+        midRate: acc.midRate * edge.rate.midRate,
+        unit: to,
+      }),
+      { buying: 1, selling: 1, midRate: 1, unit: to }
+    );
+
+    return {
+      identifier,
+      name: `${from} to ${to}`,
+      type: "currency",
+      source: DERIVED_SOURCE,
+      // A derived rate is only as fresh as its oldest input.
+      timestamp: Math.min(...path.map((e) => e.timestamp)),
+      rates: { [this.rateType]: rate },
+      historicalData: [],
+      derivation: {
+        rateType: this.rateType,
+        path: [from, ...path.map((e) => e.to)],
+        steps: path.map((e) => e.step),
+      },
+    };
+  }
+
+  /**
+   * Breadth-first search, so the fewest legs always win. Pivot currencies are
+   * explored before any other intermediate, which makes them the preferred
+   * route among equally short paths.
+   */
+  private findPath(from: string, to: string): Edge[] | null {
+    const visited = new Set([from]);
+    let frontier: { at: string; path: Edge[] }[] = [{ at: from, path: [] }];
+
+    for (let legs = 0; legs < MAX_LEGS && frontier.length > 0; legs++) {
+      const next: { at: string; path: Edge[] }[] = [];
+      for (const { at, path } of frontier) {
+        for (const edge of this.orderedEdges(at)) {
+          if (edge.to === to) return [...path, edge];
+          if (visited.has(edge.to)) continue;
+          visited.add(edge.to);
+          next.push({ at: edge.to, path: [...path, edge] });
+        }
+      }
+      frontier = next;
+    }
+    return null;
+  }
+
+  private orderedEdges(from: string): Edge[] {
+    const rank = (code: string) => {
+      const index = this.pivots.indexOf(code);
+      return index === -1 ? this.pivots.length : index;
+    };
+    return [...(this.edges.get(from) ?? [])].sort(
+      (a, b) => rank(a.to) - rank(b.to)
+    );
+  }
+
+  private addEdge(from: string, edge: Edge): void {
+    const list = this.edges.get(from) ?? [];
+    list.push(edge);
+    this.edges.set(from, list);
+  }
+}
+
+/** Reads a rate backwards: a dealer's buying price becomes our selling price. */
+function invert(rate: StandardizedRate, unit: string): StandardizedRate {
+  return {
+    buying: 1 / rate.selling,
+    selling: 1 / rate.buying,
+    midRate: 1 / rate.midRate,
+    unit,
+  };
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from "vitest";
+import { DataUnavailableError } from "@/lib/core/errors";
+import { MemoryCacheStore } from "@/lib/storage/cache.store";
+import { FakeSource, makeAsset, makeData } from "@/lib/testing/builders";
+import { DataOrchestrator } from "./data.orchestrator";
+
+// Read when the first orchestrator loads the config.
+vi.stubEnv("FETCH_DEADLINE_MS", "200");
+
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+const sarf = () =>
+  new FakeSource("A", () => makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51)));
+const cbe = () =>
+  new FakeSource("B", () =>
+    makeData(
+      makeAsset("USD_EGP", "B", "official", 48, 48.2),
+      makeAsset("EUR_EGP", "B", "official", 52, 52.3)
+    )
+  );
+
+describe("DataOrchestrator", () => {
+  describe("merging", () => {
+    it("merges every source into one asset per identifier", async () => {
+      const orchestrator = new DataOrchestrator([sarf(), cbe()]);
+      const data = await orchestrator.getStandardizedData();
+      expect(Object.keys(data.assets).sort()).toEqual(["EUR_EGP", "USD_EGP"]);
+      expect(Object.keys(data.assets.USD_EGP.rates).sort()).toEqual([
+        "official",
+        "parallel_market",
+      ]);
+      expect(data.meta).toMatchObject({ contributed: ["A", "B"], partial: false, stale: false });
+    });
+
+    it("publishes the first merge, and later ones only when data changed", async () => {
+      const a = sarf();
+      const orchestrator = new DataOrchestrator([a]);
+      orchestrator.setSources([a], { A: 30 });
+      const changes: (string | null)[] = [];
+      orchestrator.onSnapshot(({ previous }) => changes.push(previous ? "update" : "first"));
+
+      await orchestrator.getStandardizedData();
+      await orchestrator.getStandardizedData();
+      expect(changes).toEqual(["first"]);
+
+      await sleep(40);
+      a.respond = () => makeData(makeAsset("USD_EGP", "A", "parallel_market", 52, 53));
+      await orchestrator.getStandardizedData();
+      await vi.waitFor(() => expect(changes).toEqual(["first", "update"]));
+    });
+  });
+
+  describe("caching", () => {
+    it("serves a fresh entry without fetching again", async () => {
+      const a = sarf();
+      const orchestrator = new DataOrchestrator([a]);
+      await orchestrator.getStandardizedData();
+      await orchestrator.getStandardizedData();
+      expect(a.calls).toBe(1);
+    });
+
+    it("shares one build between concurrent callers", async () => {
+      const a = sarf();
+      const orchestrator = new DataOrchestrator([a]);
+      await Promise.all([
+        orchestrator.getStandardizedData(),
+        orchestrator.getStandardizedData(),
+      ]);
+      expect(a.calls).toBe(1);
+    });
+
+    it("serves an expired entry as stale while refreshing it in the background", async () => {
+      const a = sarf();
+      const orchestrator = new DataOrchestrator([a]);
+      orchestrator.setSources([a], { A: 30 });
+      await orchestrator.getStandardizedData();
+      await sleep(40);
+
+      const data = await orchestrator.getStandardizedData();
+      expect(data.meta).toMatchObject({ stale: true, staleSources: ["A"] });
+      await vi.waitFor(() => expect(a.calls).toBe(2));
+      expect((await orchestrator.getStandardizedData()).meta?.stale).toBe(false);
+    });
+
+    it("keeps serving the cached entry when its refresh fails", async () => {
+      const a = sarf();
+      const orchestrator = new DataOrchestrator([a]);
+      orchestrator.setSources([a], { A: 30 });
+      await orchestrator.getStandardizedData();
+      await sleep(40);
+      a.respond = () => {
+        throw new Error("upstream down");
+      };
+
+      const data = await orchestrator.getStandardizedData();
+      expect(data.assets.USD_EGP.rates.parallel_market?.buying).toBe(50);
+      await vi.waitFor(() => expect(a.calls).toBe(2));
+    });
+
+    it("reads entries another instance fetched through a shared store", async () => {
+      const store = new MemoryCacheStore();
+      const first = sarf();
+      const second = sarf();
+      await new DataOrchestrator([first], undefined, store).getStandardizedData();
+      await new DataOrchestrator([second], undefined, store).getStandardizedData();
+      expect(first.calls).toBe(1);
+      expect(second.calls).toBe(0);
+    });
+  });
+
+  describe("failures", () => {
+    it("reports errored and skipped sources and serves the rest", async () => {
+      const broken = new FakeSource("C", () => {
+        throw new Error("HTTP status 500");
+      });
+      const open = sarf();
+      open.status = "failed";
+      const orchestrator = new DataOrchestrator([cbe(), broken, open]);
+
+      const data = await orchestrator.getStandardizedData();
+      expect(data.meta).toMatchObject({
+        contributed: ["B"],
+        partial: true,
+        errored: [{ source: "C", error: "HTTP status 500" }],
+        skipped: ["A"],
+      });
+      expect(open.calls).toBe(0);
+    });
+
+    it("stops waiting for a slow source at the fetch deadline", async () => {
+      const slow = new FakeSource("S", async () => {
+        await sleep(400);
+        return makeData(makeAsset("GBP_EGP", "S", "official", 60, 61));
+      });
+      const orchestrator = new DataOrchestrator([cbe(), slow]);
+
+      const data = await orchestrator.getStandardizedData();
+      expect(data.meta?.timedOut).toEqual(["S"]);
+      expect(data.assets.GBP_EGP).toBeUndefined();
+
+      // The fetch carried on and landed in the cache for the next caller.
+      await sleep(300);
+      expect((await orchestrator.getStandardizedData()).assets.GBP_EGP).toBeDefined();
+    });
+
+    it("throws DataUnavailableError when nothing is available at all", async () => {
+      const broken = new FakeSource("C", () => {
+        throw new Error("down");
+      });
+      await expect(new DataOrchestrator([broken]).getStandardizedData()).rejects.toBeInstanceOf(
+        DataUnavailableError
+      );
+    });
+  });
+});
@@ -1,71 +1,453 @@
+import { EventEmitter } from "events";
 import {
   IDataSource,
   StandardizedData,
   DataSourceHealth,
+  HistoricalRateRecord,
+  RateType,
+  SnapshotMeta,
 } from "@/lib/core/data-contracts";
+import { DataUnavailableError } from "@/lib/core/errors";
 import { getAppConfig } from "@/lib/config/app-config";
+import { pipelineMetrics as metrics } from "@/lib/metrics/pipeline.metrics";
+import { ICacheStore, MemoryCacheStore } from "@/lib/storage/cache.store";
+import { IHistoryStore } from "@/lib/storage/history.store";
 import { Logger } from "@/lib/utils/logger";
+import { FreshnessTracker } from "@/lib/validation/freshness.tracker";
+import { RateMerger } from "./rate.merger";
+
+const TIMED_OUT = Symbol("timed-out");
+const PEER_POLL_INTERVAL_MS = 250;
+
+/** One source's most recent successful fetch. */
+interface SourceCacheEntry {
+  data: StandardizedData;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+/** Emitted whenever a new merged snapshot replaces the previous one. */
+export interface SnapshotChange {
+  /** Null for the first snapshot this orchestrator merges. */
+  previous: StandardizedData | null;
+  current: StandardizedData;
+}
+
+/** Why a source has no data in the current snapshot. */
+type FetchFailure =
+  | { kind: "timedOut" }
+  | { kind: "errored"; error: string }
+  | { kind: "skipped" };
 
 export class DataOrchestrator {
   private logger = new Logger("DataOrchestrator");
-  private cachedData: StandardizedData | null = null;
-  private cacheExpiry = 0;
   private config = getAppConfig();
+  private merger = new RateMerger(this.config.merge, this.config.consensus);
+  // Entries this process has seen, used when the cache store can't be reached.
+  private lastKnown = new Map<string, SourceCacheEntry>();
+  private inFlight = new Map<string, Promise<StandardizedData | null>>();
+  private pendingSnapshot: Promise<StandardizedData> | null = null;
+  // The last merge, reused until the set of cache entries behind it changes.
+  private merged: { key: string; data: StandardizedData } | null = null;
+  private events = new EventEmitter();
+  private sourceTtlMs: Record<string, number> = {};
 
-  constructor(private sources: IDataSource[]) {}
+  constructor(
+    private sources: IDataSource[],
+    private historyStore?: IHistoryStore,
+    private cacheStore: ICacheStore = new MemoryCacheStore(),
+    private freshness?: FreshnessTracker
+  ) {}
 
   /**
-   * Fetches data from all healthy sources and intelligently merges them into a single dataset.
-   * This method now supports deep-merging of different rate types (e.g., official, parallel_market)
-   * for the same asset.
+   * Subscribes to new merged snapshots. While anyone is subscribed, every
+   * completed source refresh triggers a re-merge, so changes are published as
+   * soon as they land rather than on the next read.
+   * @returns A function that removes the listener.
    */
-  public async getStandardizedData(): Promise<StandardizedData> {
-    if (this.cachedData && Date.now() < this.cacheExpiry) {
-      this.logger.debug("Returning fresh data from cache.");
-      return this.cachedData;
-    }
+  public onSnapshot(listener: (change: SnapshotChange) => void): () => void {
+    this.events.on("snapshot", listener);
+    return () => this.events.off("snapshot", listener);
+  }
 
-    const successfulFetches: StandardizedData[] = [];
+  /**
+   * Returns the merged snapshot of all sources. Each source is cached for its
+   * own TTL; stale entries are served immediately while a background refresh
+   * runs, and only sources with no usable data are awaited, bounded by
+   * `fetchDeadlineMs`. Concurrent callers share one in-flight build.
+   *
+   * With the scheduler enabled, reads never start a fetch: stale entries are
+   * served as they are, and a source with no usable entry is only waited for
+   * if a scheduled refresh of it is already in flight.
+   */
+  public getStandardizedData(): Promise<StandardizedData> {
+    if (!this.pendingSnapshot) {
+      this.pendingSnapshot = this.buildSnapshot().finally(() => {
+        this.pendingSnapshot = null;
+      });
+    }
+    return this.pendingSnapshot;
+  }
 
+  private async buildSnapshot(): Promise<StandardizedData> {
+    const now = Date.now();
+    const needed: IDataSource[] = [];
+    const cached = await this.readEntries();
     for (const source of this.sources) {
-      if (source.getHealth().status === "failed") {
-        this.logger.warn(`Skipping failed source: ${source.name}`);
+      const entry = cached.get(source.name);
+      if (entry && now < entry.expiresAt) {
+        metrics.cacheLookups.inc({ source: source.name, result: "hit" });
         continue;
       }
-      try {
-        this.logger.debug(`Fetching from source: ${source.name}`);
-        const sourceData = await source.fetchStandardizedData();
-        successfulFetches.push(sourceData);
-      } catch (error) {
-        this.logger.warn(`Source ${source.name} failed during fetch.`, {
-          error,
-        });
+      if (entry && this.isServable(entry, now)) {
+        metrics.cacheLookups.inc({ source: source.name, result: "stale" });
+        if (!this.config.scheduler.enabled) this.refreshInBackground(source);
+        continue;
       }
+      metrics.cacheLookups.inc({ source: source.name, result: "miss" });
+      needed.push(source);
     }
+    const failures =
+      needed.length > 0
+        ? await this.fetchWithDeadline(needed)
+        : new Map<string, FetchFailure>();
 
-    // Use the helper method to deeply merge all successful fetches
-    const mergedData = this.mergeData(successfulFetches);
+    const entries = needed.length > 0 ? await this.readEntries() : cached;
+    const servedAt = Date.now();
+    const used = this.sources
+      .map((source) => ({ source, entry: entries.get(source.name) }))
+      .filter(
+        (u): u is { source: IDataSource; entry: SourceCacheEntry } =>
+          u.entry !== undefined && this.isServable(u.entry, servedAt)
+      );
 
-    if (Object.keys(mergedData.assets).length === 0) {
-      if (this.cachedData) {
+    if (used.length === 0) {
+      if (this.merged) {
         this.logger.error(
           "All sources failed to provide data. Returning stale cache."
         );
-        return this.cachedData;
+        return this.merged.data;
+      }
+      throw new DataUnavailableError(
+        "All data sources are unavailable and no cache exists."
+      );
+    }
+
+    const key = used.map((u) => `${u.source.name}@${u.entry.fetchedAt}`).join("|");
+    if (this.merged?.key !== key) {
+      const previous = this.merged?.data ?? null;
+      // Use the helper method to merge all cached source data
+      this.merged = {
+        key,
+        data: this.mergeData(used.map((u) => u.entry.data)),
+      };
+      const assetCount = Object.keys(this.merged.data.assets).length;
+      metrics.merges.inc();
+      metrics.mergedAssets.set({}, assetCount);
+      this.logger.info(
+        `Successfully merged data. Total unique assets: ${assetCount}`
+      );
+      this.publish({ previous, current: this.merged.data });
+    } else {
+      this.logger.debug("Returning merged data from cache.");
+    }
+
+    const fetchedAt = Math.min(...used.map((u) => u.entry.fetchedAt));
+    const staleSources = used
+      .filter((u) => servedAt >= u.entry.expiresAt)
+      .map((u) => u.source.name);
+    const meta: SnapshotMeta = {
+      fetchedAt,
+      ageMs: servedAt - fetchedAt,
+      stale: staleSources.length > 0,
+      staleSources,
+      partial: false,
+      contributed: used.map((u) => u.source.name),
+      timedOut: [],
+      errored: [],
+      skipped: [],
+    };
+    failures.forEach((failure, name) => {
+      if (meta.contributed.includes(name)) return;
+      if (failure.kind === "errored") {
+        meta.errored.push({ source: name, error: failure.error });
+      } else {
+        meta[failure.kind].push(name);
+      }
+    });
+    meta.partial =
+      meta.timedOut.length + meta.errored.length + meta.skipped.length > 0;
+
+    metrics.cacheEntryAge.reset();
+    for (const { source, entry } of used) {
+      metrics.cacheEntryAge.set({ source: source.name }, (servedAt - entry.fetchedAt) / 1000);
+    }
+    metrics.snapshotAge.set({}, meta.ageMs / 1000);
+    metrics.snapshotStale.set({}, meta.stale ? 1 : 0);
+
+    return { ...this.merged.data, meta };
+  }
+
+  /**
+   * Refreshes the given sources in parallel, waiting at most
+   * `fetchDeadlineMs`. A source that misses the deadline keeps fetching in the
+   * background and its result lands in the cache for the next caller.
+   * @returns Why each source that produced nothing in time failed.
+   */
+  private async fetchWithDeadline(
+    sources: IDataSource[]
+  ): Promise<Map<string, FetchFailure>> {
+    const failures = new Map<string, FetchFailure>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<typeof TIMED_OUT>((res) => {
+      timer = setTimeout(() => res(TIMED_OUT), this.config.fetchDeadlineMs);
+    });
+
+    await Promise.all(
+      sources.map(async (source) => {
+        if (source.getHealth().status === "failed") {
+          this.logger.warn(`Skipping failed source: ${source.name}`);
+          failures.set(source.name, { kind: "skipped" });
+          return;
+        }
+        const refresh = this.config.scheduler.enabled
+          ? this.inFlight.get(source.name)
+          : this.refresh(source);
+        if (!refresh) {
+          failures.set(source.name, { kind: "skipped" });
+          return;
+        }
+        try {
+          const outcome = await Promise.race([refresh, deadline]);
+          if (outcome === TIMED_OUT) {
+            this.logger.warn(
+              `Source ${source.name} missed the ${this.config.fetchDeadlineMs}ms deadline.`
+            );
+            failures.set(source.name, { kind: "timedOut" });
+          }
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : "Unknown fetch error";
+          failures.set(source.name, { kind: "errored", error: message });
+        }
+      })
+    );
+    clearTimeout(timer);
+    return failures;
+  }
+
+  /**
+   * Refreshes one source now, for the scheduler. A source whose circuit is
+   * open is left alone, as is one that another instance is already refreshing.
+   */
+  public refreshSource = async (name: string): Promise<void> => {
+    const source = this.sources.find((s) => s.name === name);
+    if (!source) throw new Error(`Unknown source: ${name}`);
+    if (source.getHealth().status === "failed") {
+      this.logger.debug(`Skipping scheduled refresh of failed source: ${name}`);
+      return;
+    }
+    await this.refresh(source, false);
+  };
+
+  public getSourceNames = (): string[] => this.sources.map((s) => s.name);
+
+  /**
+   * Replaces the sources, in priority order, e.g. after one is enabled or
+   * disabled at runtime. Cached entries of removed sources stay in the store
+   * but no longer take part in snapshots; subscribers get the re-merged
+   * snapshot right away.
+   * @param ttlMs Cache TTLs by source name, overriding `config.sources`.
+   */
+  public setSources(sources: IDataSource[], ttlMs: Record<string, number> = {}): void {
+    this.sources = sources;
+    this.sourceTtlMs = ttlMs;
+    if (this.events.listenerCount("snapshot") > 0) {
+      setImmediate(() => this.getStandardizedData().catch(() => undefined));
+    }
+  }
+
+  /** The cache TTL of a source, which is also its refresh interval. */
+  public ttlFor = (sourceName: string): number =>
+    this.sourceTtlMs[sourceName] ??
+    this.config.sources[sourceName]?.refreshIntervalMs ??
+    this.config.cache.defaultTtlMs;
+
+  private refreshInBackground(source: IDataSource): void {
+    if (source.getHealth().status === "failed") return;
+    this.refresh(source, false).catch(() => {
+      // Already logged by refresh(); the stale entry keeps being served.
+    });
+  }
+
+  /**
+   * Fetches one source into the cache store. Within this process concurrent
+   * calls share one fetch; across processes a store lock makes sure only one
+   * instance refreshes a source at a time. When another instance holds the
+   * lock, this waits for its result if `waitForPeer` is set, and otherwise
+   * leaves the refresh to it.
+   */
+  private refresh(
+    source: IDataSource,
+    waitForPeer = true
+  ): Promise<StandardizedData | null> {
+    const existing = this.inFlight.get(source.name);
+    if (existing) return existing;
+
+    const fetch = this.refreshWithLock(source, waitForPeer)
+      .then((data) => {
+        if (data && this.events.listenerCount("snapshot") > 0) {
+          // Re-merge once this fetch is no longer in flight. Failures are
+          // reported through the snapshot's own meta and logs.
+          setImmediate(() =>
+            this.getStandardizedData().catch(() => undefined)
+          );
+        }
+        return data;
+      })
+      .catch((error) => {
+        this.logger.warn(`Source ${source.name} failed during fetch.`, {
+          error: error instanceof Error ? error.message : error,
+        });
+        throw error;
+      })
+      .finally(() => this.inFlight.delete(source.name));
+    this.inFlight.set(source.name, fetch);
+    return fetch;
+  }
+
+  // A throwing listener must not fail the read that produced the snapshot.
+  private publish(change: SnapshotChange): void {
+    try {
+      this.events.emit("snapshot", change);
+    } catch (error) {
+      this.logger.error("Snapshot listener failed.", {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private async refreshWithLock(
+    source: IDataSource,
+    waitForPeer: boolean
+  ): Promise<StandardizedData | null> {
+    const lockKey = `lock:source:${source.name}`;
+    let token: string | null = null;
+    try {
+      token = await this.cacheStore.acquireLock(
+        lockKey,
+        this.config.cache.lockTtlMs
+      );
+    } catch (error) {
+      // Without a reachable store there's nobody to coordinate with.
+      this.logger.warn("Cache store unavailable; refreshing without a lock.", {
+        error: error instanceof Error ? error.message : error,
+      });
+      return this.fetchIntoCache(source);
+    }
+
+    if (!token) {
+      this.logger.debug(`Another instance is refreshing ${source.name}.`);
+      return waitForPeer ? this.waitForPeer(source) : null;
+    }
+    try {
+      return await this.fetchIntoCache(source);
+    } finally {
+      await this.cacheStore.releaseLock(lockKey, token).catch(() => {
+        // The lock expires on its own.
+      });
+    }
+  }
+
+  private async fetchIntoCache(source: IDataSource): Promise<StandardizedData> {
+    this.logger.debug(`Fetching from source: ${source.name}`);
+    const data = await source.fetchStandardizedData();
+    const fetchedAt = Date.now();
+    const entry: SourceCacheEntry = {
+      data,
+      fetchedAt,
+      expiresAt: fetchedAt + this.ttlFor(source.name),
+    };
+    this.remember(source.name, entry);
+    try {
+      await this.cacheStore.set(
+        this.entryKey(source.name),
+        entry,
+        this.config.cache.maxStaleMs
+      );
+    } catch (error) {
+      this.logger.warn("Failed to write to the cache store.", {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+    await this.recordHistory(data);
+    return data;
+  }
+
+  /** Polls the store until the lock holder publishes a newer entry. */
+  private async waitForPeer(source: IDataSource): Promise<StandardizedData> {
+    const since = this.lastKnown.get(source.name)?.fetchedAt ?? 0;
+    const giveUpAt = Date.now() + this.config.cache.lockTtlMs;
+    while (Date.now() < giveUpAt) {
+      await new Promise((res) => setTimeout(res, PEER_POLL_INTERVAL_MS));
+      const entry = await this.cacheStore
+        .get<SourceCacheEntry>(this.entryKey(source.name))
+        .catch(() => null);
+      if (entry && entry.fetchedAt > since) {
+        this.remember(source.name, entry);
+        return entry.data;
       }
-      throw new Error("All data sources are unavailable and no cache exists.");
     }
+    throw new Error(`Refresh of ${source.name} by another instance did not complete.`);
+  }
 
-    this.logger.info(
-      `Successfully merged data. Total unique assets: ${
-        Object.keys(mergedData.assets).length
-      }`
+  /**
+   * Reads every source's entry from the cache store, falling back to what
+   * this process last saw for any entry the store can't deliver.
+   */
+  private async readEntries(): Promise<Map<string, SourceCacheEntry>> {
+    const entries = new Map<string, SourceCacheEntry>();
+    await Promise.all(
+      this.sources.map(async (source) => {
+        let entry: SourceCacheEntry | null = null;
+        try {
+          entry = await this.cacheStore.get<SourceCacheEntry>(
+            this.entryKey(source.name)
+          );
+        } catch (error) {
+          this.logger.warn("Failed to read from the cache store.", {
+            error: error instanceof Error ? error.message : error,
+          });
+        }
+        const known = this.lastKnown.get(source.name);
+        const best =
+          entry && (!known || entry.fetchedAt >= known.fetchedAt) ? entry : known;
+        if (!best) return;
+        this.remember(source.name, best);
+        entries.set(source.name, best);
+      })
     );
-    this.cachedData = mergedData;
-    this.cacheExpiry = Date.now() + this.config.cacheTimeoutMs;
-    return this.cachedData;
+    return entries;
   }
 
+  /**
+   * Keeps an entry as the last one seen for its source, and hands it to the
+   * freshness tracker, whether this process fetched it or a peer did.
+   */
+  private remember(sourceName: string, entry: SourceCacheEntry): void {
+    this.lastKnown.set(sourceName, entry);
+    this.freshness?.record(sourceName, entry.data, entry.fetchedAt);
+  }
+
+  private entryKey = (sourceName: string): string => `source:${sourceName}`;
+
+  private isServable = (entry: SourceCacheEntry, now: number): boolean =>
+    now < entry.fetchedAt + this.config.cache.maxStaleMs;
+
+  /** The most recent merged snapshot, without fetching; null before the first. */
+  public getLatestSnapshot = (): StandardizedData | null =>
+    this.merged?.data ?? null;
+
   public getHealth = (): DataSourceHealth[] =>
     this.sources.map((s) => s.getHealth());
 
@@ -75,28 +457,51 @@ export class DataOrchestrator {
   };
 
   /**
-   * Deep-merges data from multiple sources. If an asset exists in multiple sources,
-   * it combines their `rates` dictionaries, allowing for a single asset object
-   * to hold both 'official' and 'parallel_market' rates.
+   * Persists every rate from a fresh source fetch, keyed by the source that
+   * reported it. Storage failures are logged, never surfaced to callers.
+   */
+  private async recordHistory(sourceData: StandardizedData): Promise<void> {
+    if (!this.historyStore) return;
+    const records: HistoricalRateRecord[] = [];
+    for (const asset of Object.values(sourceData.assets)) {
+      for (const [rateType, rate] of Object.entries(asset.rates)) {
+        if (!rate) continue;
+        records.push({
+          assetId: asset.identifier,
+          rateType: rateType as RateType,
+          source: asset.source,
+          timestamp: asset.timestamp,
+          buying: rate.buying,
+          selling: rate.selling,
+          midRate: rate.midRate,
+          unit: rate.unit,
+        });
+      }
+    }
+    try {
+      await this.historyStore.append(records);
+    } catch (error) {
+      this.logger.error("Failed to record snapshot history.", { error });
+    }
+  }
+
+  /**
+   * Merges data from multiple sources into one asset per identifier. Each rate
+   * type is resolved under its configured merge policy, so a single asset can
+   * hold both 'official' and 'parallel_market' rates, and the losing quotes are
+   * kept in `asset.provenance` for auditing.
    * @param sourcesData An array of standardized data objects from successful source fetches.
-   * @returns A single, deeply merged standardized data object.
+   * @returns A single, merged standardized data object.
    */
   private mergeData(sourcesData: StandardizedData[]): StandardizedData {
-    const merged: StandardizedData = { assets: {} };
-
-    for (const sourceData of sourcesData) {
-      for (const assetId in sourceData.assets) {
-        const newAsset = sourceData.assets[assetId];
-        const existingAsset = merged.assets[assetId];
-
-        if (existingAsset) {
-          // Asset already exists, so we merge its `rates` dictionary.
-          // Object.assign will overwrite keys in `existingAsset.rates` with values from `newAsset.rates`.
-          Object.assign(existingAsset.rates, newAsset.rates);
-        } else {
-          // This is a new asset, so add it directly.
-          merged.assets[assetId] = newAsset;
-        }
+    const merged = this.merger.merge(sourcesData);
+    for (const asset of Object.values(merged.assets)) {
+      for (const [rateType, consensus] of Object.entries(asset.consensus ?? {})) {
+        if (!consensus?.divergent) continue;
+        this.logger.warn(
+          `Sources disagree on ${asset.identifier} ${rateType}: spread ${consensus.spreadPercent.toFixed(2)}%.`,
+          { sources: asset.provenance?.[rateType as RateType]?.sources }
+        );
       }
     }
     return merged;
@@ -0,0 +1,53 @@
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { DataUnavailableError } from "@/lib/core/errors";
+import { ExchangeService } from "./exchange.service";
+
+// Replaying from an empty recordings directory: every upstream call fails.
+const directory = mkdtempSync(path.join(os.tmpdir(), "exchange-service-replay-"));
+vi.stubEnv("APP_MODE", "hybrid");
+vi.stubEnv("HTTP_RECORDING", "replay");
+vi.stubEnv("APP_CONFIG__http__recordingsDir", path.join(directory, "recordings"));
+vi.stubEnv("HISTORY_STORE_PATH", path.join(directory, "history.ndjson"));
+vi.stubEnv("APP_CONFIG__alerts__rulesPath", path.join(directory, "rules.json"));
+vi.stubEnv("APP_CONFIG__alerts__deliveriesPath", path.join(directory, "deliveries.ndjson"));
+vi.stubEnv("APP_CONFIG__resilience__retry__maxAttempts", "1");
+// The simulated source never touches HTTP, so it would never fail.
+vi.stubEnv("APP_CONFIG__sources__Mock-Commodities-API__enabled", "false");
+
+describe("ExchangeService health when upstreams fail", () => {
+  const service = ExchangeService.getInstance();
+  afterAll(async () => {
+    await service.shutdown();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("starts healthy before any fetch", () => {
+    expect(service.getServiceHealth().status).toBe("healthy");
+  });
+
+  it("degrades on failed fetches while breakers are still closed", async () => {
+    await expect(service.getAllAssets()).rejects.toBeInstanceOf(DataUnavailableError);
+    const health = service.getServiceHealth();
+    expect(health.status).toBe("degraded");
+    expect(health.sources).toHaveLength(4);
+    for (const source of health.sources) {
+      expect(source.status).toBe("degraded");
+      expect(source.message).toMatch(/No recording/);
+    }
+  });
+
+  it("fails once every source's breaker has opened", async () => {
+    // The breaker opens on the third consecutive failure.
+    for (let i = 0; i < 2; i++) {
+      await expect(service.getAllAssets()).rejects.toBeInstanceOf(DataUnavailableError);
+    }
+    const health = service.getServiceHealth();
+    expect(health.status).toBe("failed");
+    expect(health.sources.map((s) => s.breaker.state)).toEqual(
+      health.sources.map(() => "open")
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { ExchangeService } from "./exchange.service";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+
+const directory = mkdtempSync(path.join(os.tmpdir(), "exchange-service-"));
+vi.stubEnv("APP_MODE", "demo");
+vi.stubEnv("HISTORY_STORE_PATH", path.join(directory, "history.ndjson"));
+vi.stubEnv("APP_CONFIG__alerts__rulesPath", path.join(directory, "rules.json"));
+vi.stubEnv("APP_CONFIG__alerts__deliveriesPath", path.join(directory, "deliveries.ndjson"));
+
+// Every source serves its bundled fixture, published on 19/10/2026.
+describe("ExchangeService health in demo mode", () => {
+  const service = ExchangeService.getInstance();
+  afterAll(async () => {
+    await service.shutdown();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("is healthy once every source has delivered fresh data", async () => {
+    const assets = await service.getAllAssets();
+    expect(Object.keys(assets)).toContain("USD_EGP");
+
+    const health = service.getServiceHealth();
+    expect(health.status).toBe("healthy");
+    expect(health.sources.map((s) => s.status)).toEqual(
+      health.sources.map(() => "healthy")
+    );
+    expect(health.staleAssets).toEqual([]);
+  });
+
+  it("returns assets with the meta of the snapshot they came from", async () => {
+    const { assets, meta } = await service.getAssets(["USD_EGP", "XAU_USD"]);
+    expect(Object.keys(assets)).toEqual(["USD_EGP"]);
+    expect(meta).toMatchObject({ partial: false, stale: false });
+    expect(meta?.contributed).toContain("Sarf-EGP-API");
+  });
+
+  it("converts through the snapshot, and never with a commodity", async () => {
+    const result = await service.convert("EGP", "USD", 100, "official");
+    const usdEgp = (await service.getAllAssets()).USD_EGP.rates.official!;
+    expect(result?.asset.derivation?.steps).toEqual([{ assetId: "USD_EGP", inverted: true }]);
+    expect(result?.converted.midRate).toBeCloseTo(100 / usdEgp.midRate, 9);
+
+    expect(await service.convert("OIL", "WTI", 1, "market")).toBeNull();
+    expect(await service.convert("EGP", "XYZ", 1, "official")).toBeNull();
+  });
+
+  it("degrades when the snapshot outlives the sources' freshness SLAs", () => {
+    vi.setSystemTime(NOW + 5 * DAY_MS);
+    const health = service.getServiceHealth();
+    expect(health.status).toBe("degraded");
+
+    const official = health.staleAssets.find((a) => a.identifier === "USD_EGP");
+    expect(official?.freshness).toContainEqual(
+      expect.objectContaining({
+        source: "CBE-Official-Web",
+        stale: true,
+        reason: "max_age",
+        maxAgeMs: 4 * DAY_MS,
+      })
+    );
+    // Sources themselves are still fine: only the data is old.
+    expect(health.sources.every((s) => s.status === "healthy")).toBe(true);
+  });
+});
@@ -1,48 +1,200 @@
 import { getAppConfig } from "@/lib/config/app-config";
 import {
-  IDataSource,
+  AssetDefinition,
+  AssetType,
   StandardizedAsset,
+  UnknownAssetReport,
+  StandardizedData,
   DataSourceHealth,
   AssetIdentifier,
+  HistoricalRateRecord,
+  RateType,
+  RateUpdateEvent,
+  CandleSeries,
+  SnapshotMeta,
+  PriceSide,
+  PRICE_SIDES,
+  CIRCUIT_STATES,
+  AssetFreshness,
+  ExportRow,
 } from "@/lib/core/data-contracts";
-// v-- IMPORT THE NEW SOURCE HERE
 import {
-  SarfCurrencySource,
-  MockCommoditiesSource,
-  ForexAlgerieSource,
-} from "@/lib/data-sources";
+  ExportOptions,
+  formatExport,
+  MAX_COLUMNAR_ROWS,
+} from "@/lib/export/export.formatter";
+import { historyRows, snapshotRows } from "@/lib/export/export.rows";
+import {
+  aggregateCandles,
+  CandleOptions,
+} from "@/lib/analytics/candle.aggregator";
+import { getSourceRegistry, SourceManager } from "@/lib/data-sources";
+import { DataUnavailableError, ExportTooLargeError } from "@/lib/core/errors";
+import { getAssetRegistry } from "@/lib/registry/asset.registry";
 import { DataOrchestrator } from "./data.orchestrator";
-import { Logger, LogEntry, LogLevel } from "@/lib/utils/logger";
+import { ConversionGraph } from "./conversion.graph";
+import {
+  CHANGE_WINDOW_MS,
+  computeAssetAnalytics,
+  RateHistory,
+} from "@/lib/analytics/asset.analytics";
+import { getMetricsRegistry } from "@/lib/metrics/metrics.registry";
+import { pipelineMetrics } from "@/lib/metrics/pipeline.metrics";
+import {
+  JobDefinition,
+  JobScheduler,
+  JobStatus,
+} from "@/lib/scheduler/job.scheduler";
+import { AlertManager } from "@/lib/alerts/alert.manager";
+import { WebhookDispatcher } from "@/lib/alerts/webhook.dispatcher";
+import { FileAlertRuleStore } from "@/lib/storage/alert-rule.store";
+import { FileWebhookDeliveryStore } from "@/lib/storage/webhook-delivery.store";
+import { RateUpdateFeed } from "@/lib/streaming/rate-update.feed";
+import { diffSnapshots } from "@/lib/streaming/snapshot.diff";
+import { ICacheStore, MemoryCacheStore } from "@/lib/storage/cache.store";
+import { RedisCacheStore } from "@/lib/storage/redis-cache.store";
+import {
+  FileHistoryStore,
+  HistoryQuery,
+  IHistoryStore,
+} from "@/lib/storage/history.store";
+import { Logger, LogPage, LogQuery } from "@/lib/utils/logger";
+import {
+  FreshnessTracker,
+  SourceFreshness,
+} from "@/lib/validation/freshness.tracker";
+
+const STORED_HISTORY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+// Rows formatted per chunk when streaming an export.
+const EXPORT_BATCH_SIZE = 1000;
+
+/** An asset in the latest snapshot with at least one source past its freshness SLA. */
+export interface StaleAsset {
+  identifier: AssetIdentifier;
+  /** Only the breaching sources. */
+  freshness: AssetFreshness[];
+}
 
 export interface ServiceHealth {
   status: "healthy" | "degraded" | "failed";
   sources: DataSourceHealth[];
+  jobs: JobStatus[];
+  staleAssets: StaleAsset[];
+}
+
+export interface ConversionResult {
+  from: string;
+  to: string;
+  amount: number;
+  rateType: RateType;
+  /** `amount` converted at the buying, selling and mid rate. */
+  converted: { buying: number; selling: number; midRate: number };
+  /** The quoted pair used, or a derived asset describing the path taken. */
+  asset: StandardizedAsset;
+}
+
+/**
+ * What to export: the current merged snapshot, or the stored history
+ * between `from` and `to`. The other fields narrow the rows.
+ */
+export interface ExportQuery {
+  scope: "snapshot" | "history";
+  ids?: AssetIdentifier[];
+  type?: AssetType;
+  rateType?: RateType;
+  source?: string;
+  from?: number;
+  to?: number;
+}
+
+export interface AssetSelection {
+  assets: Record<AssetIdentifier, StandardizedAsset>;
+  /** The meta of the snapshot the assets were taken from. */
+  meta?: SnapshotMeta;
+}
+
+export interface CatalogEntry extends AssetDefinition {
+  /** Whether the current snapshot has data for this asset. */
+  available: boolean;
+}
+
+export interface AssetCatalog {
+  assets: CatalogEntry[];
+  /** Assets sources produced that the registry doesn't define. */
+  unknown: UnknownAssetReport[];
 }
 
 export class ExchangeService {
   private static instance: ExchangeService;
   private orchestrator: DataOrchestrator;
+  private historyStore: IHistoryStore;
+  private cacheStore: ICacheStore;
+  private freshness: FreshnessTracker;
+  private scheduler = new JobScheduler();
+  // Schedule of each registered refresh job, to tell which ones changed.
+  private refreshJobs = new Map<string, string>();
+  private updates: RateUpdateFeed;
+  public readonly alerts: AlertManager;
+  public readonly sources: SourceManager;
   private logger = new Logger("ExchangeService");
 
   private constructor() {
     const config = getAppConfig();
-    const sources: IDataSource[] = [];
-
-    // Define the priority of data source modules here
-    if (config.mode === "production" || config.mode === "hybrid") {
-      sources.push(new SarfCurrencySource());
-      sources.push(new ForexAlgerieSource()); // <-- ADD THE NEW SOURCE TO THE ARRAY
-      sources.push(new MockCommoditiesSource()); // Add other sources here
-    }
-
-    this.orchestrator = new DataOrchestrator(sources);
-    setInterval(
-      this.orchestrator.runHealthChecks,
-      config.healthCheckIntervalMs
+    this.sources = new SourceManager(getSourceRegistry(), config);
+    this.historyStore = new FileHistoryStore(
+      config.historyStorePath,
+      config.historyRetentionMs
+    );
+    this.cacheStore =
+      config.cacheStore.driver === "redis"
+        ? new RedisCacheStore(config.cacheStore)
+        : new MemoryCacheStore();
+    this.freshness = new FreshnessTracker(config.freshness);
+    // Sources are handed over by applySourceChanges() below.
+    this.orchestrator = new DataOrchestrator(
+      [],
+      this.historyStore,
+      this.cacheStore,
+      this.freshness
     );
+    this.applySourceChanges();
+    this.sources.onChange(() => this.applySourceChanges());
+    this.updates = new RateUpdateFeed(config.streaming.replayBufferSize);
+    this.alerts = new AlertManager(
+      new FileAlertRuleStore(config.alerts.rulesPath),
+      new FileWebhookDeliveryStore(config.alerts.deliveriesPath),
+      new WebhookDispatcher(config.alerts.delivery),
+      config.alerts.defaultCooldownMs
+    );
+    this.orchestrator.onSnapshot(({ previous, current }) => {
+      this.updates.publish(diffSnapshots(previous, current));
+      void this.evaluateAlerts(current);
+    });
+    this.scheduler.register({
+      name: "health-checks",
+      intervalMs: config.healthCheckIntervalMs,
+      missedRunPolicy: "skip",
+      run: this.orchestrator.runHealthChecks,
+    });
+    this.scheduler.start();
+    getMetricsRegistry().addCollector(this.collectBreakerStates);
     this.logger.info(`Service initialized in ${config.mode} mode.`);
   }
 
+  /** Sets the breaker-state gauge from the active sources before each scrape. */
+  private collectBreakerStates = (): void => {
+    const gauge = pipelineMetrics.sourceBreakerState;
+    gauge.reset();
+    for (const health of this.orchestrator.getHealth()) {
+      for (const state of CIRCUIT_STATES) {
+        gauge.set({ source: health.source, state }, health.breaker.state === state ? 1 : 0);
+      }
+    }
+  };
+
+  /** All metrics in the Prometheus text exposition format. */
+  public getMetrics = (): string => getMetricsRegistry().render();
+
   // ... rest of the file remains the same
   public static getInstance(): ExchangeService {
     if (!ExchangeService.instance)
@@ -50,25 +202,384 @@ export class ExchangeService {
     return ExchangeService.instance;
   }
 
+  /** Stops background jobs, waiting for running ones, closes the cache store and flushes logs. */
+  public async shutdown(): Promise<void> {
+    await this.scheduler.stop();
+    await this.cacheStore.close();
+    await Logger.close();
+  }
+
+  /** Points the orchestrator and the refresh jobs at the active sources. */
+  private applySourceChanges(): void {
+    const ttlMs: Record<string, number> = {};
+    const freshness: Record<string, SourceFreshness> = {};
+    for (const settings of this.sources.getSettings()) {
+      ttlMs[settings.name] = settings.refreshIntervalMs;
+      freshness[settings.name] = {
+        maxAgeMs: settings.maxAgeMs,
+        maxUnchangedMs: settings.maxUnchangedMs,
+      };
+    }
+    this.freshness.setSourceSettings(freshness);
+    this.orchestrator.setSources(this.sources.getActiveSources(), ttlMs);
+    this.syncRefreshJobs();
+  }
+
+  /**
+   * One refresh job per active source, unless the scheduler is disabled and
+   * sources are fetched on demand instead. Jobs whose schedule didn't change
+   * are left alone; new or rescheduled ones run right away.
+   */
+  private syncRefreshJobs(): void {
+    const config = getAppConfig();
+    const wanted = new Map<string, JobDefinition>();
+    if (config.scheduler.enabled) {
+      for (const settings of this.sources.getSettings()) {
+        if (!settings.enabled) continue;
+        const { name } = settings;
+        wanted.set(`refresh:${name}`, {
+          name: `refresh:${name}`,
+          intervalMs: settings.refreshIntervalMs,
+          missedRunPolicy:
+            settings.missedRunPolicy ?? config.scheduler.missedRunPolicy,
+          marketHours: settings.marketHours,
+          run: () => this.orchestrator.refreshSource(name),
+        });
+      }
+    }
+    const schedule = (job: JobDefinition) =>
+      JSON.stringify([job.intervalMs, job.missedRunPolicy, job.marketHours]);
+
+    this.refreshJobs.forEach((registered, name) => {
+      const job = wanted.get(name);
+      if (job && schedule(job) === registered) return;
+      this.scheduler.unregister(name);
+      this.refreshJobs.delete(name);
+    });
+    wanted.forEach((job, name) => {
+      if (this.refreshJobs.has(name)) return;
+      this.scheduler.register(job);
+      this.refreshJobs.set(name, schedule(job));
+    });
+  }
+
+  /**
+   * The given assets, or every asset when `ids` is omitted, prepared from one
+   * snapshot and returned with that snapshot's meta, so flags like `partial`
+   * describe exactly the data returned.
+   */
+  public async getAssets(ids?: AssetIdentifier[]): Promise<AssetSelection> {
+    const data = await this.orchestrator.getStandardizedData();
+    return {
+      assets: await this.prepareAssets(data, ids ?? Object.keys(data.assets)),
+      meta: data.meta,
+    };
+  }
+
   public async getAssetData(
     ids: AssetIdentifier[]
   ): Promise<Record<AssetIdentifier, StandardizedAsset>> {
-    const data = await this.orchestrator.getStandardizedData();
-    return ids.reduce((acc, id) => {
-      if (data.assets[id]) acc[id] = data.assets[id];
+    return (await this.getAssets(ids)).assets;
+  }
+
+  /** Adds stored history, analytics and freshness to the selected assets of a snapshot. */
+  private async prepareAssets(
+    data: StandardizedData,
+    ids: AssetIdentifier[]
+  ): Promise<Record<AssetIdentifier, StandardizedAsset>> {
+    const selected = ids.filter((id) => data.assets[id]);
+    const assets = await Promise.all(
+      selected.map(async (id) => {
+        const asset = await this.withStoredHistory(data.assets[id]);
+        const history = await this.getRateHistory(asset);
+        const freshness = this.freshness.assess(asset);
+        return {
+          ...asset,
+          analytics: computeAssetAnalytics(asset, history),
+          freshness,
+          stale: freshness.some((f) => f.stale),
+        };
+      })
+    );
+    return assets.reduce((acc, asset) => {
+      acc[asset.identifier] = asset;
       return acc;
     }, {} as Record<AssetIdentifier, StandardizedAsset>);
   }
 
+  private async evaluateAlerts(snapshot: StandardizedData): Promise<void> {
+    try {
+      const watched = await this.alerts.watchedAssets();
+      if (watched.length === 0) return;
+      await this.alerts.evaluate(await this.prepareAssets(snapshot, watched));
+    } catch (error) {
+      this.logger.error("Failed to evaluate alerts.", {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  public async getAllAssets(): Promise<
+    Record<AssetIdentifier, StandardizedAsset>
+  > {
+    return (await this.getAssets()).assets;
+  }
+
+  /**
+   * Converts between any two currencies reachable in the current snapshot,
+   * using a quoted pair when one exists and a cross rate otherwise.
+   * Returns null when no conversion path exists for the rate type.
+   */
+  public async convert(
+    from: string,
+    to: string,
+    amount: number,
+    rateType: RateType
+  ): Promise<ConversionResult | null> {
+    const data = await this.orchestrator.getStandardizedData();
+    const graph = new ConversionGraph(
+      data,
+      rateType,
+      getAppConfig().conversion.pivotCurrencies
+    );
+    const asset = graph.resolve(from, to);
+    const rate = asset?.rates[rateType];
+    if (!asset || !rate) return null;
+    return {
+      from,
+      to,
+      amount,
+      rateType,
+      converted: {
+        buying: amount * rate.buying,
+        selling: amount * rate.selling,
+        midRate: amount * rate.midRate,
+      },
+      asset,
+    };
+  }
+
+  /**
+   * Subscribes to rate changes between merged snapshots. Pass the last event
+   * ID a client saw to have the events it missed replayed first.
+   * @returns The replayed events, or null when `lastEventId` can't be resumed
+   * from and the client needs a fresh snapshot, plus an unsubscribe function.
+   */
+  public subscribeToUpdates(
+    listener: (event: RateUpdateEvent) => void,
+    lastEventId?: string
+  ): { replay: RateUpdateEvent[] | null; unsubscribe: () => void } {
+    const unsubscribe = this.updates.subscribe(listener);
+    const replay = lastEventId ? this.updates.since(lastEventId) : null;
+    return { replay, unsubscribe };
+  }
+
+  public getLastUpdateId = (): string | null => this.updates.lastEventId();
+
+  /**
+   * Lists registered assets and whether each currently has data. When no
+   * snapshot is available yet, every asset is reported as unavailable.
+   */
+  public async getCatalog(
+    filter: { type?: AssetType; quote?: string } = {}
+  ): Promise<AssetCatalog> {
+    const registry = getAssetRegistry();
+    let available: Record<AssetIdentifier, unknown> = {};
+    try {
+      available = (await this.orchestrator.getStandardizedData()).assets;
+    } catch (error) {
+      if (!(error instanceof DataUnavailableError)) throw error;
+    }
+    return {
+      assets: registry.list(filter).map((definition) => ({
+        ...definition,
+        available: definition.identifier in available,
+      })),
+      unknown: registry.getUnknown(),
+    };
+  }
+
+  /**
+   * Exports rows of the snapshot or of stored history, one per asset, rate
+   * type and source, as chunks of formatted output. The snapshot is built
+   * before this resolves, so an outage fails the call rather than the
+   * stream; history is read one asset at a time as the chunks are consumed.
+   * @throws ExportTooLargeError if a columnar history export would exceed
+   * `MAX_COLUMNAR_ROWS`.
+   */
+  public async exportData(
+    query: ExportQuery,
+    options: ExportOptions
+  ): Promise<AsyncIterable<string>> {
+    const matches = (row: ExportRow) =>
+      (!query.type || row.type === query.type) &&
+      (!query.rateType || row.rateType === query.rateType) &&
+      (!query.source || row.source === query.source);
+
+    let batches: AsyncIterable<ExportRow[]>;
+    if (query.scope === "snapshot") {
+      const data = await this.orchestrator.getStandardizedData();
+      const assets = query.ids
+        ? query.ids.filter((id) => data.assets[id]).map((id) => data.assets[id])
+        : Object.values(data.assets);
+      batches = (async function* () {
+        for (const asset of assets) yield snapshotRows(asset).filter(matches);
+      })();
+    } else {
+      const ids = query.ids ?? (await this.historyStore.listAssets());
+      const store = this.historyStore;
+      const registry = getAssetRegistry();
+      const recordsOf = (assetId: AssetIdentifier) =>
+        store.query({
+          assetId,
+          rateType: query.rateType,
+          source: query.source,
+          from: query.from,
+          to: query.to,
+        });
+      if (options.format === "columnar") {
+        // Refuse before streaming, while the route can still answer with an error.
+        let rowCount = 0;
+        for (const assetId of ids) {
+          if (query.type && registry.resolve(assetId)?.type !== query.type) continue;
+          rowCount += (await recordsOf(assetId)).length;
+        }
+        if (rowCount > MAX_COLUMNAR_ROWS) {
+          throw new ExportTooLargeError(rowCount, MAX_COLUMNAR_ROWS);
+        }
+      }
+      batches = (async function* () {
+        for (const assetId of ids) {
+          const records = await recordsOf(assetId);
+          for (let i = 0; i < records.length; i += EXPORT_BATCH_SIZE) {
+            yield historyRows(records.slice(i, i + EXPORT_BATCH_SIZE), registry).filter(
+              matches
+            );
+          }
+        }
+      })();
+    }
+    return formatExport(batches, options);
+  }
+
+  public getHistory = (query: HistoryQuery): Promise<HistoricalRateRecord[]> =>
+    this.historyStore.query(query);
+
+  /**
+   * Builds OHLC candle series from stored history: one series per source,
+   * rate type and side, unless narrowed by `query.source`, `query.rateType`
+   * or `side`.
+   */
+  public async getCandles(
+    query: HistoryQuery,
+    options: Omit<CandleOptions, "side" | "from" | "to"> & { side?: PriceSide }
+  ): Promise<CandleSeries[]> {
+    const records = await this.historyStore.query(query);
+    // One series per source and rate type: interleaving providers' quotes
+    // would make up opens, closes and ranges that no source ever quoted.
+    const groups = new Map<string, HistoricalRateRecord[]>();
+    for (const record of records) {
+      const key = `${record.source}\u0000${record.rateType}`;
+      const group = groups.get(key) ?? [];
+      group.push(record);
+      groups.set(key, group);
+    }
+
+    const sides = options.side ? [options.side] : PRICE_SIDES;
+    const series: CandleSeries[] = [];
+    groups.forEach((group) => {
+      const { source, rateType } = group[0];
+      for (const side of sides) {
+        series.push({
+          assetId: query.assetId,
+          source,
+          rateType,
+          side,
+          interval: options.interval,
+          gapFill: options.gapFill,
+          candles: aggregateCandles(group, {
+            ...options,
+            side,
+            from: query.from,
+            to: query.to,
+          }),
+        });
+      }
+    });
+    return series;
+  }
+
+  /**
+   * Loads the stored mid-rate series needed for change analytics. Where one
+   * source supplied a merged rate, only that source's records are used, so a
+   * change is never measured across two providers.
+   */
+  private async getRateHistory(asset: StandardizedAsset): Promise<RateHistory> {
+    const records = await this.historyStore.query({
+      assetId: asset.identifier,
+      from: Date.now() - CHANGE_WINDOW_MS["30d"] * 1.5,
+    });
+    const history: RateHistory = {};
+    for (const record of records) {
+      const sources = asset.provenance?.[record.rateType]?.sources;
+      if (sources?.length === 1 && sources[0] !== record.source) continue;
+      (history[record.rateType] ??= []).push({
+        timestamp: record.timestamp,
+        value: record.midRate,
+      });
+    }
+    return history;
+  }
+
+  /**
+   * Sources like Forex Algerie send no history of their own. For those assets,
+   * serve the stored mid-rate series of their first rate type instead.
+   */
+  private async withStoredHistory(
+    asset: StandardizedAsset
+  ): Promise<StandardizedAsset> {
+    const rateType = Object.keys(asset.rates)[0] as RateType | undefined;
+    if (asset.historicalData.length > 0 || !rateType) return asset;
+    const records = await this.historyStore.query({
+      assetId: asset.identifier,
+      rateType,
+      from: Date.now() - STORED_HISTORY_WINDOW_MS,
+    });
+    return {
+      ...asset,
+      historicalData: records.map((r) => ({
+        timestamp: r.timestamp,
+        value: r.midRate,
+      })),
+    };
+  }
+
+  /**
+   * Degraded when any source is unhealthy or any asset in the latest
+   * snapshot breaches its freshness SLA; failed when every source has failed.
+   */
   public getServiceHealth(): ServiceHealth {
     const sources = this.orchestrator.getHealth();
+    const staleAssets = this.getStaleAssets();
     const status = sources.every((s) => s.status === "failed")
       ? "failed"
-      : sources.some((s) => s.status !== "healthy")
+      : sources.some((s) => s.status !== "healthy") || staleAssets.length > 0
       ? "degraded"
       : "healthy";
-    return { status, sources };
+    return { status, sources, jobs: this.scheduler.getStatus(), staleAssets };
+  }
+
+  private getStaleAssets(): StaleAsset[] {
+    const snapshot = this.orchestrator.getLatestSnapshot();
+    if (!snapshot) return [];
+    const now = Date.now();
+    return Object.values(snapshot.assets)
+      .map((asset) => ({
+        identifier: asset.identifier,
+        freshness: this.freshness.assess(asset, now).filter((f) => f.stale),
+      }))
+      .filter((asset) => asset.freshness.length > 0);
   }
 
-  public getLogs = (level?: LogLevel): LogEntry[] => Logger.getLogs(level);
+  public getLogs = (query: LogQuery = {}): LogPage => Logger.getLogs(query);
 }
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { MergeConfig } from "@/lib/config/app-config";
+import { makeAsset, makeData } from "@/lib/testing/builders";
+import { RateMerger } from "./rate.merger";
+
+const consensus = { divergenceThresholdPercent: 2 };
+const merger = (config: Partial<MergeConfig> = {}) =>
+  new RateMerger({ default: { strategy: "priority" }, ...config }, consensus);
+
+describe("RateMerger", () => {
+  it("combines rate types from different sources into one asset", () => {
+    const merged = merger().merge([
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51)),
+      makeData(makeAsset("USD_EGP", "B", "official", 48, 48.2)),
+    ]);
+    const asset = merged.assets.USD_EGP;
+    expect(Object.keys(asset.rates).sort()).toEqual(["official", "parallel_market"]);
+    expect(asset.provenance?.official?.sources).toEqual(["B"]);
+    expect(asset.provenance?.parallel_market?.sources).toEqual(["A"]);
+    expect(asset.consensus).toBeUndefined();
+  });
+
+  it("lets the first source win under `priority`, keeping the loser as rejected", () => {
+    const merged = merger().merge([
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 52, 53)),
+    ]);
+    const asset = merged.assets.USD_EGP;
+    expect(asset.rates.parallel_market?.buying).toBe(50);
+    expect(asset.source).toBe("A");
+    expect(asset.provenance?.parallel_market?.rejected.map((q) => q.source)).toEqual(["B"]);
+  });
+
+  it("follows a policy's `sourcePriority` over source order", () => {
+    const merged = merger({
+      byAsset: { USD_EGP: { strategy: "priority", sourcePriority: ["B"] } },
+    }).merge([
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 52, 53)),
+    ]);
+    expect(merged.assets.USD_EGP.rates.parallel_market?.buying).toBe(52);
+  });
+
+  it("takes the newest quote under `freshest`", () => {
+    const merged = merger({ default: { strategy: "freshest" } }).merge([
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51, 1_000)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 52, 53, 2_000)),
+    ]);
+    const asset = merged.assets.USD_EGP;
+    expect(asset.rates.parallel_market?.buying).toBe(52);
+    expect(asset.timestamp).toBe(2_000);
+  });
+
+  it("combines every quote under `median` and records them", () => {
+    const merged = merger({ byRateType: { parallel_market: { strategy: "median" } } }).merge([
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 52, 53)),
+      makeData(makeAsset("USD_EGP", "C", "parallel_market", 51, 52)),
+    ]);
+    const asset = merged.assets.USD_EGP;
+    expect(asset.rates.parallel_market).toMatchObject({ buying: 51, selling: 52 });
+    expect(asset.provenance?.parallel_market?.sources).toEqual(["A", "B", "C"]);
+    expect(asset.provenance?.parallel_market?.combined).toHaveLength(3);
+  });
+
+  it("leaves quotes in another unit out of `average`, rejecting them", () => {
+    const cents = makeAsset("USD_EGP", "C", "parallel_market", 5000, 5100);
+    cents.rates.parallel_market!.unit = "piastres";
+    const merged = merger({ default: { strategy: "average", sourcePriority: ["B"] } }).merge([
+      makeData(cents),
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 52, 53)),
+    ]);
+    const asset = merged.assets.USD_EGP;
+    expect(asset.rates.parallel_market).toMatchObject({ buying: 51, selling: 52, unit: "EGP" });
+    expect(asset.provenance?.parallel_market?.sources).toEqual(["A", "B"]);
+    expect(asset.provenance?.parallel_market?.rejected.map((q) => q.source)).toEqual(["C"]);
+  });
+
+  it("falls back to the best-ranked quote when combining leaves buying above selling", () => {
+    const merged = merger({ default: { strategy: "median" } }).merge([
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 49)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 53, 48)),
+    ]);
+    const asset = merged.assets.USD_EGP;
+    expect(asset.rates.parallel_market).toMatchObject({ buying: 50, selling: 49 });
+    expect(asset.provenance?.parallel_market).toMatchObject({
+      strategy: "priority",
+      sources: ["A"],
+    });
+  });
+
+  it("takes asset-level fields from the source the asset's policy ranks first", () => {
+    const merged = merger({
+      byAsset: { USD_EGP: { strategy: "priority", sourcePriority: ["B"] } },
+    }).merge([
+      makeData(makeAsset("USD_EGP", "A", "official", 48, 48.2)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 50, 51)),
+    ]);
+    expect(merged.assets.USD_EGP.source).toBe("B");
+  });
+
+  it("flags sources that disagree beyond the divergence threshold", () => {
+    const merged = merger().merge([
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 50)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 55, 55)),
+    ]);
+    const agreement = merged.assets.USD_EGP.consensus?.parallel_market;
+    expect(agreement?.sourceCount).toBe(2);
+    expect(agreement?.divergent).toBe(true);
+    expect(agreement?.confidence).toBe(0);
+  });
+
+  it("only compares quotes in the merged rate's unit for consensus", () => {
+    const piastres = makeAsset("USD_EGP", "C", "parallel_market", 5010, 5110);
+    piastres.rates.parallel_market!.unit = "piastres";
+    const merged = merger().merge([
+      makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51)),
+      makeData(makeAsset("USD_EGP", "B", "parallel_market", 50.2, 51.2)),
+      makeData(piastres),
+    ]);
+    const agreement = merged.assets.USD_EGP.consensus?.parallel_market;
+    expect(agreement?.sourceCount).toBe(2);
+    expect(agreement?.divergent).toBe(false);
+    expect(agreement?.spreadPercent).toBeCloseTo(0.395, 3);
+  });
+
+  it("leaves the source snapshots untouched", () => {
+    const a = makeData(makeAsset("USD_EGP", "A", "parallel_market", 50, 51));
+    const before = JSON.stringify(a);
+    merger().merge([a, makeData(makeAsset("USD_EGP", "B", "official", 48, 49))]);
+    expect(JSON.stringify(a)).toBe(before);
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  AssetIdentifier,
+  MergePolicy,
+  MergeStrategy,
+  RateConsensus,
+  RateProvenance,
+  RateType,
+  SourcedRate,
+  StandardizedAsset,
+  StandardizedData,
+  StandardizedRate,
+} from "@/lib/core/data-contracts";
+import { ConsensusConfig, MergeConfig } from "@/lib/config/app-config";
+
+/**
+ * Combines per-source snapshots into one dataset without touching the inputs.
+ * Every rate type of every asset is resolved independently under the policy
+ * configured for it, and the decision is recorded in `asset.provenance`.
+ * Where several sources quote a rate type, `asset.consensus` reports how
+ * closely they agree.
+ */
+export class RateMerger {
+  constructor(
+    private readonly config: MergeConfig,
+    private readonly consensusConfig: ConsensusConfig
+  ) {}
+
+  /**
+   * @param sourcesData Snapshots in source order. That order breaks ties and
+   * ranks sources that a policy's `sourcePriority` does not mention.
+   */
+  public merge(sourcesData: StandardizedData[]): StandardizedData {
+    const byAsset = new Map<AssetIdentifier, StandardizedAsset[]>();
+    for (const sourceData of sourcesData) {
+      for (const asset of Object.values(sourceData.assets)) {
+        const group = byAsset.get(asset.identifier) ?? [];
+        group.push(asset);
+        byAsset.set(asset.identifier, group);
+      }
+    }
+
+    const merged: StandardizedData = { assets: {} };
+    byAsset.forEach((variants, assetId) => {
+      merged.assets[assetId] = this.mergeAsset(assetId, variants);
+    });
+    return merged;
+  }
+
+  public resolvePolicy(assetId: AssetIdentifier, rateType: RateType): MergePolicy {
+    return (
+      this.config.byAsset?.[assetId] ??
+      this.config.byRateType?.[rateType] ??
+      this.config.default
+    );
+  }
+
+  private mergeAsset(
+    assetId: AssetIdentifier,
+    variants: StandardizedAsset[]
+  ): StandardizedAsset {
+    const quotesByType = new Map<RateType, SourcedRate[]>();
+    for (const variant of variants) {
+      for (const [rateType, rate] of Object.entries(variant.rates)) {
+        if (!rate) continue;
+        const quotes = quotesByType.get(rateType as RateType) ?? [];
+        quotes.push({ source: variant.source, timestamp: variant.timestamp, rate });
+        quotesByType.set(rateType as RateType, quotes);
+      }
+    }
+
+    const rates: Partial<Record<RateType, StandardizedRate>> = {};
+    const provenance: Partial<Record<RateType, RateProvenance>> = {};
+    const consensus: Partial<Record<RateType, RateConsensus>> = {};
+    quotesByType.forEach((quotes, rateType) => {
+      const policy = this.resolvePolicy(assetId, rateType);
+      const { rate, record } = this.resolveRate(quotes, policy);
+      rates[rateType] = rate;
+      provenance[rateType] = record;
+      // Quotes in another unit would read as a disagreement of orders of magnitude.
+      const comparable = quotes.filter((q) => q.rate.unit === rate.unit);
+      if (comparable.length > 1) {
+        consensus[rateType] = this.computeConsensus(assetId, comparable);
+      }
+    });
+
+    // Asset-level fields follow the best-ranked source that contributed any
+    // rate, ranked under the asset's own policy since they span rate types.
+    const contributors = new Set(Object.values(provenance).flatMap((p) => p?.sources ?? []));
+    const assetPolicy = this.config.byAsset?.[assetId] ?? this.config.default;
+    const ranked = this.rankBySource(variants, assetPolicy);
+    const primary = ranked.find((v) => contributors.has(v.source)) ?? variants[0];
+    const withHistory = ranked.find((v) => v.historicalData.length > 0);
+
+    return {
+      identifier: assetId,
+      name: primary.name,
+      type: primary.type,
+      source: primary.source,
+      timestamp: Math.max(
+        ...Object.values(provenance).map((p) => p?.timestamp ?? 0)
+      ),
+      rates,
+      historicalData: [...(withHistory?.historicalData ?? [])],
+      provenance,
+      ...(Object.keys(consensus).length > 0 && { consensus }),
+    };
+  }
+
+  private computeConsensus(
+    assetId: AssetIdentifier,
+    quotes: SourcedRate[]
+  ): RateConsensus {
+    const threshold =
+      this.consensusConfig.byAsset?.[assetId] ??
+      this.consensusConfig.divergenceThresholdPercent;
+    const mids = quotes.map((q) => q.rate.midRate);
+    const midRate = median(mids);
+    const spreadPercent =
+      midRate === 0
+        ? 0
+        : ((Math.max(...mids) - Math.min(...mids)) / midRate) * 100;
+    const confidence =
+      threshold > 0
+        ? Math.max(0, Math.min(1, 1 - spreadPercent / (2 * threshold)))
+        : spreadPercent === 0
+        ? 1
+        : 0;
+    return {
+      midRate,
+      sourceCount: quotes.length,
+      spreadPercent,
+      confidence,
+      divergent: spreadPercent > threshold,
+    };
+  }
+
+  /**
+   * `median` and `average` only combine quotes in the unit of the best-ranked
+   * one, and fall back to that quote alone if combining leaves buying above
+   * selling.
+   */
+  private resolveRate(
+    quotes: SourcedRate[],
+    policy: MergePolicy
+  ): { rate: StandardizedRate; record: RateProvenance } {
+    const ranked = this.rankBySource(quotes, policy);
+    if (policy.strategy === "median" || policy.strategy === "average") {
+      const combine = policy.strategy === "median" ? median : average;
+      const unit = ranked[0].rate.unit;
+      const combined = quotes.filter((q) => q.rate.unit === unit);
+      const rate: StandardizedRate = {
+        buying: combine(combined.map((q) => q.rate.buying)),
+        selling: combine(combined.map((q) => q.rate.selling)),
+        midRate: combine(combined.map((q) => q.rate.midRate)),
+        unit,
+      };
+      if (rate.buying <= rate.selling) {
+        return {
+          rate,
+          record: {
+            strategy: policy.strategy,
+            sources: combined.map((q) => q.source),
+            timestamp: Math.max(...combined.map((q) => q.timestamp)),
+            rejected: quotes.filter((q) => q.rate.unit !== unit),
+            combined,
+          },
+        };
+      }
+      return this.pickFirst(ranked, "priority");
+    }
+
+    if (policy.strategy === "freshest") {
+      // Stable sort keeps priority order among equally fresh quotes.
+      ranked.sort((a, b) => b.timestamp - a.timestamp);
+    }
+    return this.pickFirst(ranked, policy.strategy);
+  }
+
+  private pickFirst(
+    ranked: SourcedRate[],
+    strategy: MergeStrategy
+  ): { rate: StandardizedRate; record: RateProvenance } {
+    const [winner, ...rejected] = ranked;
+    return {
+      rate: { ...winner.rate },
+      record: {
+        strategy,
+        sources: [winner.source],
+        timestamp: winner.timestamp,
+        rejected,
+      },
+    };
+  }
+
+  private rankBySource<T extends { source: string }>(
+    items: T[],
+    policy: MergePolicy
+  ): T[] {
+    const priority = policy.sourcePriority ?? [];
+    const rank = (source: string) => {
+      const index = priority.indexOf(source);
+      return index === -1 ? priority.length : index;
+    };
+    return [...items].sort((a, b) => rank(a.source) - rank(b.source));
+  }
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
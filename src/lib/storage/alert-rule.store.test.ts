@@ -0,0 +1,55 @@
+import { promises as fs, mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { AlertRule } from "@/lib/core/data-contracts";
+import { FileAlertRuleStore } from "./alert-rule.store";
+
+const rule = (id: string): AlertRule => ({
+  id,
+  name: `Rule ${id}`,
+  assetId: "USD_EGP",
+  condition: {
+    kind: "threshold",
+    rateType: "official",
+    side: "buying",
+    comparison: "above",
+    value: 50,
+  },
+  webhookUrl: "https://hooks.example.com/fx",
+  secret: "s3cret",
+  enabled: true,
+  cooldownMs: 1000,
+  createdAt: 1_000,
+  updatedAt: 1_000,
+  active: false,
+});
+
+describe("FileAlertRuleStore", () => {
+  const directory = mkdtempSync(path.join(os.tmpdir(), "alert-rule-store-"));
+  let n = 0;
+  const newFile = () => path.join(directory, `rules-${++n}.json`);
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  it("persists saves and deletes across instances", async () => {
+    const file = newFile();
+    const store = new FileAlertRuleStore(file);
+    await store.save(rule("a"));
+    await store.save(rule("b"));
+    expect(await store.delete("a")).toBe(true);
+    expect(await store.delete("a")).toBe(false);
+
+    const reloaded = new FileAlertRuleStore(file);
+    expect((await reloaded.list()).map((r) => r.id)).toEqual(["b"]);
+  });
+
+  it("reads the file again after a failed first read", async () => {
+    const file = newFile();
+    await fs.writeFile(file, "[{");
+    const store = new FileAlertRuleStore(file);
+    await expect(store.list()).rejects.toThrow();
+
+    await fs.writeFile(file, JSON.stringify([rule("a")]));
+    expect(await store.get("a")).toMatchObject({ id: "a", name: "Rule a" });
+  });
+});
@@ -0,0 +1,96 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AlertRule } from "@/lib/core/data-contracts";
+import { Logger } from "@/lib/utils/logger";
+
+/** The contract for any persistent store of alert rules. */
+export interface IAlertRuleStore {
+  list(): Promise<AlertRule[]>;
+  get(id: string): Promise<AlertRule | null>;
+  /** Inserts or replaces the rule with the same ID. */
+  save(rule: AlertRule): Promise<void>;
+  /** Returns false when no rule had that ID. */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Keeps every rule in memory and rewrites one JSON file on each change. The
+ * file is replaced atomically (write to a temp file, then rename), so a crash
+ * mid-write never leaves it truncated.
+ */
+export class FileAlertRuleStore implements IAlertRuleStore {
+  private logger = new Logger("FileAlertRuleStore");
+  private rules = new Map<string, AlertRule>();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  public async list(): Promise<AlertRule[]> {
+    await this.load();
+    return Array.from(this.rules.values()).map((r) => ({ ...r }));
+  }
+
+  public async get(id: string): Promise<AlertRule | null> {
+    await this.load();
+    const rule = this.rules.get(id);
+    return rule ? { ...rule } : null;
+  }
+
+  public async save(rule: AlertRule): Promise<void> {
+    await this.load();
+    this.rules.set(rule.id, { ...rule });
+    await this.persist();
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    await this.load();
+    if (!this.rules.delete(id)) return false;
+    await this.persist();
+    return true;
+  }
+
+  private persist(): Promise<void> {
+    const content = JSON.stringify(Array.from(this.rules.values()), null, 2);
+    // Serialize writes so an older snapshot never lands after a newer one.
+    this.writeQueue = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, content, "utf8");
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.writeQueue.catch((error) => {
+      this.logger.error("Failed to persist alert rules", {
+        error: error instanceof Error ? error.message : error,
+      });
+      this.writeQueue = Promise.resolve();
+      throw error;
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch((error) => {
+        // A transient read error shouldn't fail every later call.
+        this.loading = null;
+        this.rules.clear();
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    for (const rule of JSON.parse(content) as AlertRule[]) {
+      this.rules.set(rule.id, rule);
+    }
+    this.logger.info(`Loaded ${this.rules.size} alert rules.`);
+  }
+}
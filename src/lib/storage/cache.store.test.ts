@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryCacheStore } from "./cache.store";
+
+describe("MemoryCacheStore", () => {
+  let store: MemoryCacheStore;
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"], now: 0 });
+    store = new MemoryCacheStore();
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("expires entries after their TTL, and keeps those without one", async () => {
+    await store.set("a", 1, 1000);
+    await store.set("b", 2);
+    vi.setSystemTime(999);
+    expect(await store.get("a")).toBe(1);
+    vi.setSystemTime(1000);
+    expect(await store.get("a")).toBeNull();
+    expect(await store.get("b")).toBe(2);
+  });
+
+  it("hands out copies, so callers can't change what is stored", async () => {
+    await store.set("a", { rates: [1] });
+    const copy = await store.get<{ rates: number[] }>("a");
+    copy!.rates.push(2);
+    expect(await store.get("a")).toEqual({ rates: [1] });
+  });
+
+  it("holds a lock until its token releases it or it expires", async () => {
+    const token = await store.acquireLock("k", 1000);
+    expect(token).not.toBeNull();
+    expect(await store.acquireLock("k", 1000)).toBeNull();
+
+    await store.releaseLock("k", "someone-else");
+    expect(await store.acquireLock("k", 1000)).toBeNull();
+    await store.releaseLock("k", token!);
+    const second = await store.acquireLock("k", 1000);
+    expect(second).not.toBeNull();
+
+    vi.setSystemTime(1000);
+    expect(await store.acquireLock("k", 1000)).not.toBeNull();
+  });
+});
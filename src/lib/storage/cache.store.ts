@@ -0,0 +1,61 @@
+import { randomUUID } from "crypto";
+
+/**
+ * A key-value store for cached snapshots, shareable between processes. Values
+ * are JSON-serializable. Locks are advisory: `acquireLock` returns a token
+ * that must be presented to release it, and every lock expires on its own so
+ * a crashed holder can't block others forever.
+ */
+export interface ICacheStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  acquireLock(key: string, ttlMs: number): Promise<string | null>;
+  releaseLock(key: string, token: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** A process-local store. Values are stored as JSON so callers get copies. */
+export class MemoryCacheStore implements ICacheStore {
+  private entries = new Map<string, { json: string; expiresAt: number }>();
+  private locks = new Map<string, { token: string; expiresAt: number }>();
+
+  public async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return JSON.parse(entry.json) as T;
+  }
+
+  public async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.set(key, {
+      json: JSON.stringify(value),
+      expiresAt: ttlMs === undefined ? Infinity : Date.now() + ttlMs,
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const now = Date.now();
+    const held = this.locks.get(key);
+    if (held && now < held.expiresAt) return null;
+    const token = randomUUID();
+    this.locks.set(key, { token, expiresAt: now + ttlMs });
+    return token;
+  }
+
+  public async releaseLock(key: string, token: string): Promise<void> {
+    if (this.locks.get(key)?.token === token) this.locks.delete(key);
+  }
+
+  public async close(): Promise<void> {
+    this.entries.clear();
+    this.locks.clear();
+  }
+}
@@ -0,0 +1,81 @@
+import { promises as fs, mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import { HistoricalRateRecord } from "@/lib/core/data-contracts";
+import { FileHistoryStore } from "./history.store";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+const record = (timestamp: number, assetId = "USD_EGP"): HistoricalRateRecord => ({
+  assetId,
+  rateType: "parallel_market",
+  source: "Sarf-EGP-API",
+  timestamp,
+  buying: 49,
+  selling: 50,
+  midRate: 49.5,
+  unit: "EGP",
+});
+
+const lines = async (file: string) =>
+  (await fs.readFile(file, "utf8")).split("\n").filter(Boolean).length;
+
+describe("FileHistoryStore", () => {
+  const directory = mkdtempSync(path.join(os.tmpdir(), "history-store-"));
+  let n = 0;
+  const newFile = () => path.join(directory, `history-${++n}.ndjson`);
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+  afterEach(() => vi.useRealTimers());
+
+  it("persists records once, and reloads them in time order", async () => {
+    const file = newFile();
+    const store = new FileHistoryStore(file);
+    await store.append([record(NOW), record(NOW - HOUR_MS)]);
+    await store.append([record(NOW)]);
+    expect(await lines(file)).toBe(2);
+
+    const reloaded = new FileHistoryStore(file);
+    expect((await reloaded.query({ assetId: "USD_EGP" })).map((r) => r.timestamp)).toEqual([
+      NOW - HOUR_MS,
+      NOW,
+    ]);
+    expect(await reloaded.listAssets()).toEqual(["USD_EGP"]);
+  });
+
+  it("retries loading after a failed read", async () => {
+    const file = newFile();
+    await fs.mkdir(file); // Reading a directory fails with EISDIR.
+    const store = new FileHistoryStore(file);
+    await expect(store.query({ assetId: "USD_EGP" })).rejects.toThrow();
+
+    await fs.rmdir(file);
+    await fs.writeFile(file, JSON.stringify(record(NOW)) + "\n");
+    expect(await store.query({ assetId: "USD_EGP" })).toHaveLength(1);
+  });
+
+  it("drops records past the retention period and compacts the file", async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+    const file = newFile();
+    const store = new FileHistoryStore(file, 7 * DAY_MS);
+    const old = Array.from({ length: 6 }, (_, i) => record(NOW - (10 + i) * DAY_MS));
+    await fs.writeFile(
+      file,
+      [...old, record(NOW - DAY_MS, "EUR_EGP")].map((r) => JSON.stringify(r)).join("\n") + "\n"
+    );
+
+    expect(await store.listAssets()).toEqual(["EUR_EGP"]);
+    await store.append([record(NOW - 30 * DAY_MS), record(NOW)]);
+    expect(await store.query({ assetId: "USD_EGP" })).toEqual([record(NOW)]);
+    expect(await lines(file)).toBe(2);
+
+    // A week later, yesterday's EUR record is gone too.
+    vi.setSystemTime(NOW + 7 * DAY_MS);
+    await store.append([record(NOW + 7 * DAY_MS)]);
+    expect(await store.listAssets()).toEqual(["USD_EGP"]);
+    expect(await store.query({ assetId: "USD_EGP" })).toHaveLength(2);
+    expect(await lines(file)).toBe(2);
+  });
+});
@@ -0,0 +1,208 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  AssetIdentifier,
+  HistoricalRateRecord,
+  RateType,
+} from "@/lib/core/data-contracts";
+import { Logger } from "@/lib/utils/logger";
+
+export interface HistoryQuery {
+  assetId: AssetIdentifier;
+  rateType?: RateType;
+  source?: string;
+  from?: number;
+  to?: number;
+}
+
+/** The contract for any persistent store of historical rate observations. */
+export interface IHistoryStore {
+  append(records: HistoricalRateRecord[]): Promise<void>;
+  query(query: HistoryQuery): Promise<HistoricalRateRecord[]>;
+  /** Every asset with stored records, sorted. */
+  listAssets(): Promise<AssetIdentifier[]>;
+}
+
+// How often appends check for records past the retention period.
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// The file is rewritten once this share of its lines is dead weight.
+const COMPACT_WASTE_RATIO = 0.25;
+
+/**
+ * An append-only NDJSON store. Every record is one line in a single file, and
+ * an in-memory index (by asset) is built from it on first use so queries never
+ * touch the disk.
+ *
+ * Records older than `retentionMs` are dropped from the index, at most once
+ * an hour, and the file is rewritten without them once enough of it is
+ * expired, duplicate or unreadable.
+ */
+export class FileHistoryStore implements IHistoryStore {
+  private logger = new Logger("FileHistoryStore");
+  private index = new Map<AssetIdentifier, HistoricalRateRecord[]>();
+  private seen = new Set<string>();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Every line in the file, live or not, to tell when compaction pays off.
+  private linesOnDisk = 0;
+  private lastPruneAt = 0;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly retentionMs = Infinity
+  ) {}
+
+  public async append(records: HistoricalRateRecord[]): Promise<void> {
+    await this.load();
+    const cutoff = Date.now() - this.retentionMs;
+    const fresh = records.filter(
+      (r) => r.timestamp >= cutoff && !this.seen.has(this.recordKey(r))
+    );
+    if (fresh.length > 0) {
+      fresh.forEach((r) => this.addToIndex(r));
+      this.linesOnDisk += fresh.length;
+      const lines = fresh.map((r) => JSON.stringify(r)).join("\n") + "\n";
+      this.enqueueWrite("persist history records", async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, lines, "utf8");
+      });
+      this.logger.debug(`Stored ${fresh.length} history records.`);
+    }
+    if (Date.now() - this.lastPruneAt >= PRUNE_INTERVAL_MS) this.prune();
+    await this.writeQueue;
+  }
+
+  public async query(query: HistoryQuery): Promise<HistoricalRateRecord[]> {
+    await this.load();
+    const from = query.from ?? -Infinity;
+    const to = query.to ?? Infinity;
+    return (this.index.get(query.assetId) ?? []).filter(
+      (r) =>
+        r.timestamp >= from &&
+        r.timestamp <= to &&
+        (!query.rateType || r.rateType === query.rateType) &&
+        (!query.source || r.source === query.source)
+    );
+  }
+
+  public async listAssets(): Promise<AssetIdentifier[]> {
+    await this.load();
+    return Array.from(this.index.keys()).sort();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch((error) => {
+        // A transient read error shouldn't fail every later call.
+        this.loading = null;
+        this.index.clear();
+        this.seen.clear();
+        this.linesOnDisk = 0;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /** Drops records past the retention period, compacting the file if worth it. */
+  private prune(): void {
+    this.lastPruneAt = Date.now();
+    const cutoff = this.lastPruneAt - this.retentionMs;
+    let dropped = 0;
+    this.index.forEach((series, assetId) => {
+      const keep = series.findIndex((r) => r.timestamp >= cutoff);
+      const expired = keep === -1 ? series.length : keep;
+      if (expired === 0) return;
+      for (const record of series.slice(0, expired)) {
+        this.seen.delete(this.recordKey(record));
+      }
+      dropped += expired;
+      if (keep === -1) this.index.delete(assetId);
+      else this.index.set(assetId, series.slice(keep));
+    });
+    if (dropped > 0) {
+      this.logger.info(`Dropped ${dropped} history records past the retention period.`);
+    }
+    const waste = this.linesOnDisk - this.seen.size;
+    if (waste > 0 && waste >= this.linesOnDisk * COMPACT_WASTE_RATIO) this.compact();
+  }
+
+  /**
+   * Rewrites the file with the indexed records only. The content is taken
+   * now, so appends queued after it land after the rewrite, not in it.
+   */
+  private compact(): void {
+    const lines: string[] = [];
+    this.index.forEach((series) => series.forEach((r) => lines.push(JSON.stringify(r))));
+    const content = lines.length > 0 ? lines.join("\n") + "\n" : "";
+    const before = this.linesOnDisk;
+    this.linesOnDisk = lines.length;
+    this.enqueueWrite("compact the history file", async () => {
+      const temporary = `${this.filePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(temporary, content, "utf8");
+      await fs.rename(temporary, this.filePath);
+      this.logger.info(`Compacted the history file from ${before} to ${lines.length} lines.`);
+    });
+  }
+
+  /** Serializes writes so concurrent snapshots never interleave lines. */
+  private enqueueWrite(what: string, write: () => Promise<void>): void {
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await write();
+      } catch (error) {
+        this.logger.error(`Failed to ${what}`, {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    });
+  }
+
+  private async readFile(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    let skipped = 0;
+    const cutoff = Date.now() - this.retentionMs;
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      this.linesOnDisk++;
+      let record: HistoricalRateRecord;
+      try {
+        record = JSON.parse(line) as HistoricalRateRecord;
+      } catch {
+        skipped++; // A partially written trailing line after a crash.
+        continue;
+      }
+      if (record.timestamp >= cutoff) this.addToIndex(record);
+    }
+    if (skipped > 0) {
+      this.logger.warn(`Skipped ${skipped} unreadable history lines.`);
+    }
+    this.logger.info(`Loaded history for ${this.index.size} assets.`);
+  }
+
+  private addToIndex(record: HistoricalRateRecord): void {
+    const key = this.recordKey(record);
+    if (this.seen.has(key)) return;
+    this.seen.add(key);
+
+    const series = this.index.get(record.assetId) ?? [];
+    // Records almost always arrive in order; only re-sort when they don't.
+    const last = series[series.length - 1];
+    series.push(record);
+    if (last && last.timestamp > record.timestamp) {
+      series.sort((a, b) => a.timestamp - b.timestamp);
+    }
+    this.index.set(record.assetId, series);
+  }
+
+  private recordKey = (r: HistoricalRateRecord): string =>
+    `${r.assetId}|${r.rateType}|${r.source}|${r.timestamp}`;
+}
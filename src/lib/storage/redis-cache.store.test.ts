@@ -0,0 +1,79 @@
+import { randomUUID } from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { RedisCacheStore } from "./redis-cache.store";
+import { RedisClient } from "./redis.client";
+
+const url = process.env.REDIS_URL;
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+// Runs against a real server, e.g. `REDIS_URL=redis://localhost:6379/15 npm test`.
+// Keys are prefixed per run, so a shared database is left as it was.
+describe.skipIf(!url)("RedisCacheStore against redis-server", () => {
+  const keyPrefix = `cache-store-test:${randomUUID()}:`;
+  let store: RedisCacheStore;
+  let admin: RedisClient;
+
+  // Built here, not at collection, which happens even when the suite is skipped.
+  beforeAll(() => {
+    const options = { url: url!, connectTimeoutMs: 2000, commandTimeoutMs: 2000 };
+    store = new RedisCacheStore({ ...options, keyPrefix });
+    admin = new RedisClient(options);
+  });
+
+  afterAll(async () => {
+    const keys = await admin.command("KEYS", `${keyPrefix}*`);
+    if (Array.isArray(keys) && keys.length > 0) {
+      await admin.command("DEL", ...(keys as string[]));
+    }
+    await store.close();
+    await admin.quit();
+  });
+
+  it("round-trips JSON values under the key prefix", async () => {
+    const value = { assets: { USD_EGP: { buying: 49.35 } }, note: "ünïcødé\r\n" };
+    await store.set("snapshot", value);
+    expect(await store.get("snapshot")).toEqual(value);
+    expect(await admin.command("EXISTS", `${keyPrefix}snapshot`)).toBe(1);
+
+    await store.delete("snapshot");
+    expect(await store.get("snapshot")).toBeNull();
+  });
+
+  it("expires entries after their TTL", async () => {
+    await store.set("short", 1, 50);
+    expect(await store.get("short")).toBe(1);
+    await sleep(80);
+    expect(await store.get("short")).toBeNull();
+  });
+
+  it("grants a lock to one holder and releases it only with its token", async () => {
+    const token = await store.acquireLock("lock", 5000);
+    expect(token).not.toBeNull();
+    expect(await store.acquireLock("lock", 5000)).toBeNull();
+
+    await store.releaseLock("lock", "not-the-token");
+    expect(await store.acquireLock("lock", 5000)).toBeNull();
+
+    await store.releaseLock("lock", token!);
+    expect(await store.acquireLock("lock", 5000)).not.toBeNull();
+  });
+
+  it("lets a lock expire when its holder never releases it", async () => {
+    expect(await store.acquireLock("expiring", 50)).not.toBeNull();
+    await sleep(80);
+    expect(await store.acquireLock("expiring", 50)).not.toBeNull();
+  });
+
+  it("reconnects on the next command after the server drops the connection", async () => {
+    await store.set("survivor", "still here");
+    // Kills every other normal client, including the store's connection.
+    await admin.command("CLIENT", "KILL", "TYPE", "normal", "SKIPME", "yes");
+    await sleep(20);
+    expect(await store.get("survivor")).toBe("still here");
+  });
+
+  it("surfaces error replies without breaking the pipeline", async () => {
+    await expect(admin.command("NOT-A-COMMAND")).rejects.toThrow(/unknown command/i);
+    expect(await admin.command("PING")).toBe("PONG");
+  });
+});
@@ -0,0 +1,67 @@
+import { randomUUID } from "crypto";
+import { ICacheStore } from "./cache.store";
+import { RedisClient, RedisClientOptions } from "./redis.client";
+
+// Deletes the lock only if it still holds our token, atomically.
+const RELEASE_LOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+else
+  return 0
+end`;
+
+export interface RedisCacheStoreOptions extends RedisClientOptions {
+  /** Prepended to every key so several deployments can share one server. */
+  keyPrefix: string;
+}
+
+/**
+ * A cache store on any Redis-protocol server, letting every instance of the
+ * service share snapshots and refresh locks. Locks use `SET NX PX` and are
+ * released with a compare-and-delete script.
+ */
+export class RedisCacheStore implements ICacheStore {
+  private client: RedisClient;
+
+  constructor(private readonly options: RedisCacheStoreOptions) {
+    this.client = new RedisClient(options);
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    const value = await this.client.command("GET", this.key(key));
+    return typeof value === "string" ? (JSON.parse(value) as T) : null;
+  }
+
+  public async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const json = JSON.stringify(value);
+    if (ttlMs === undefined) {
+      await this.client.command("SET", this.key(key), json);
+    } else {
+      await this.client.command("SET", this.key(key), json, "PX", Math.ceil(ttlMs));
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.client.command("DEL", this.key(key));
+  }
+
+  public async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const reply = await this.client.command(
+      "SET",
+      this.key(key),
+      token,
+      "NX",
+      "PX",
+      Math.ceil(ttlMs)
+    );
+    return reply === "OK" ? token : null;
+  }
+
+  public async releaseLock(key: string, token: string): Promise<void> {
+    await this.client.command("EVAL", RELEASE_LOCK_SCRIPT, 1, this.key(key), token);
+  }
+
+  public close = (): Promise<void> => this.client.quit();
+
+  private key = (key: string): string => `${this.options.keyPrefix}${key}`;
+}
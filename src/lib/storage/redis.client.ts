@@ -0,0 +1,215 @@
+import net from "net";
+import { Logger } from "@/lib/utils/logger";
+
+export type RespValue = string | number | null | RespValue[];
+
+/** An error reply (`-ERR ...`) from the server. */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisReplyError";
+  }
+}
+
+export interface RedisClientOptions {
+  /** e.g. `redis://:password@localhost:6379/0` */
+  url: string;
+  connectTimeoutMs: number;
+  commandTimeoutMs: number;
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A minimal RESP2 client: one connection, commands pipelined in order. It
+ * speaks the Redis wire protocol directly, so it works against redis-server or
+ * any compatible server (Valkey, KeyDB, Dragonfly) without a driver package.
+ * The connection is opened lazily and re-opened on the next command after a
+ * drop.
+ */
+export class RedisClient {
+  private logger = new Logger("RedisClient");
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  private readonly target: URL;
+
+  constructor(private readonly options: RedisClientOptions) {
+    this.target = new URL(options.url);
+  }
+
+  public async command(...args: (string | number)[]): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  public async quit(): Promise<void> {
+    if (!this.socket) return;
+    try {
+      await this.command("QUIT");
+    } catch {
+      // The server closes the connection either way.
+    }
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  private send(socket: net.Socket, args: (string | number)[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // A reply that never comes leaves the pipeline out of step; start over.
+        this.teardown(new Error(`Redis command timed out: ${args[0]}`));
+      }, this.options.commandTimeoutMs);
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({
+        host: this.target.hostname || "127.0.0.1",
+        port: Number(this.target.port || 6379),
+      });
+      socket.setTimeout(this.options.connectTimeoutMs, () =>
+        socket.destroy(new Error("Redis connection timed out"))
+      );
+      socket.once("connect", async () => {
+        socket.setTimeout(0);
+        try {
+          await this.handshake(socket);
+          // Only hand the socket out once AUTH/SELECT have gone through.
+          this.socket = socket;
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          this.teardown(error as Error);
+          reject(error);
+        }
+      });
+      // Events from a connection we've already replaced must not touch state.
+      const isCurrent = () => this.socket === null || this.socket === socket;
+      socket.on("data", (chunk) => {
+        if (isCurrent()) this.onData(chunk);
+      });
+      socket.once("error", (error) => {
+        this.logger.warn("Redis connection error", { error: error.message });
+        if (isCurrent()) this.teardown(error);
+        reject(error);
+      });
+      socket.once("close", () => {
+        if (isCurrent()) this.teardown(new Error("Redis connection closed"));
+      });
+    }).finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private async handshake(socket: net.Socket): Promise<void> {
+    const password = decodeURIComponent(this.target.password);
+    const username = decodeURIComponent(this.target.username);
+    if (password) {
+      await this.send(socket, username ? ["AUTH", username, password] : ["AUTH", password]);
+    }
+    const db = this.target.pathname.replace("/", "");
+    if (db) await this.send(socket, ["SELECT", db]);
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      let parsed: ReturnType<typeof parseReply>;
+      try {
+        parsed = parseReply(this.buffer, 0);
+      } catch (error) {
+        this.teardown(error as Error);
+        return;
+      }
+      if (!parsed) return;
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const command = this.pending.shift();
+      if (!command) continue;
+      clearTimeout(command.timer);
+      if (parsed.value instanceof RedisReplyError) command.reject(parsed.value);
+      else command.resolve(parsed.value);
+    }
+  }
+
+  private teardown(error: Error): void {
+    this.socket?.destroy();
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) {
+      clearTimeout(command.timer);
+      command.reject(error);
+    }
+  }
+}
+
+function encodeCommand(args: (string | number)[]): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const data = Buffer.from(String(arg), "utf8");
+    parts.push(Buffer.from(`$${data.length}\r\n`), data, Buffer.from("\r\n"));
+  }
+  return Buffer.concat(parts);
+}
+
+/** Parses one reply starting at `offset`, or returns null if it's incomplete. */
+function parseReply(
+  buffer: Buffer,
+  offset: number
+): { value: RespValue | RedisReplyError; offset: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new RedisReplyError(line), offset: next };
+    case ":":
+      return { value: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        value: buffer.toString("utf8", next, next + length),
+        offset: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let error: RedisReplyError | null = null;
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return null;
+        // Keep consuming so the stream stays aligned, then surface the error.
+        if (item.value instanceof RedisReplyError) error ??= item.value;
+        else items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: error ?? items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP type byte: ${type}`);
+  }
+}
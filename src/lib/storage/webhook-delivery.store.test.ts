@@ -0,0 +1,48 @@
+import { promises as fs, mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { WebhookDelivery } from "@/lib/core/data-contracts";
+import { FileWebhookDeliveryStore } from "./webhook-delivery.store";
+
+const delivery = (id: string, ruleId = "rule-1"): WebhookDelivery => ({
+  id,
+  eventId: `evt-${id}`,
+  ruleId,
+  url: "https://hooks.example.com/fx",
+  status: "delivered",
+  attempts: 1,
+  responseStatus: 200,
+  startedAt: 1_000,
+  completedAt: 1_050,
+});
+
+describe("FileWebhookDeliveryStore", () => {
+  const directory = mkdtempSync(path.join(os.tmpdir(), "delivery-store-"));
+  let n = 0;
+  const newFile = () => path.join(directory, `deliveries-${++n}.ndjson`);
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  it("queries the most recent deliveries first, per rule, across instances", async () => {
+    const file = newFile();
+    const store = new FileWebhookDeliveryStore(file);
+    await store.append(delivery("1"));
+    await store.append(delivery("2", "rule-2"));
+    await store.append(delivery("3"));
+
+    const reloaded = new FileWebhookDeliveryStore(file);
+    expect((await reloaded.query({ ruleId: "rule-1" })).map((d) => d.id)).toEqual(["3", "1"]);
+    expect((await reloaded.query({ limit: 1 })).map((d) => d.id)).toEqual(["3"]);
+  });
+
+  it("reads the file again after a failed first read", async () => {
+    const file = newFile();
+    await fs.mkdir(file); // Reading a directory fails with EISDIR.
+    const store = new FileWebhookDeliveryStore(file);
+    await expect(store.query({})).rejects.toThrow();
+
+    await fs.rmdir(file);
+    await fs.writeFile(file, JSON.stringify(delivery("1")) + "\n");
+    expect((await store.query({})).map((d) => d.id)).toEqual(["1"]);
+  });
+});
@@ -0,0 +1,91 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { WebhookDelivery } from "@/lib/core/data-contracts";
+import { Logger } from "@/lib/utils/logger";
+
+export interface DeliveryQuery {
+  ruleId?: string;
+  /** Most recent first; defaults to all that are kept. */
+  limit?: number;
+}
+
+/** The contract for any persistent log of webhook deliveries. */
+export interface IWebhookDeliveryStore {
+  append(delivery: WebhookDelivery): Promise<void>;
+  query(query: DeliveryQuery): Promise<WebhookDelivery[]>;
+}
+
+/**
+ * An append-only NDJSON log. The full log stays on disk; only the most recent
+ * `retain` deliveries are kept in memory for queries.
+ */
+export class FileWebhookDeliveryStore implements IWebhookDeliveryStore {
+  private logger = new Logger("FileWebhookDeliveryStore");
+  private recent: WebhookDelivery[] = [];
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly retain = 1000
+  ) {}
+
+  public async append(delivery: WebhookDelivery): Promise<void> {
+    await this.load();
+    this.remember(delivery);
+    const line = JSON.stringify(delivery) + "\n";
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, line, "utf8");
+      } catch (error) {
+        this.logger.error("Failed to persist webhook delivery", {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    });
+    await this.writeQueue;
+  }
+
+  public async query(query: DeliveryQuery): Promise<WebhookDelivery[]> {
+    await this.load();
+    const matches = this.recent
+      .filter((d) => !query.ruleId || d.ruleId === query.ruleId)
+      .reverse();
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  private remember(delivery: WebhookDelivery): void {
+    this.recent.push(delivery);
+    if (this.recent.length > this.retain) this.recent.shift();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch((error) => {
+        // A transient read error shouldn't fail every later call.
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    for (const line of content.split("\n").slice(-this.retain - 1)) {
+      if (!line.trim()) continue;
+      try {
+        this.remember(JSON.parse(line) as WebhookDelivery);
+      } catch {
+        // A partially written trailing line after a crash.
+      }
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { EventEmitter } from "events";
+import { RateUpdate, RateUpdateEvent } from "@/lib/core/data-contracts";
+
+type Listener = (event: RateUpdateEvent) => void;
+
+/**
+ * Publishes snapshot diffs to subscribers and keeps the most recent ones so a
+ * reconnecting client can catch up from its last event ID. IDs carry this
+ * feed's start time, so an ID from before a restart is recognised as
+ * unresumable rather than matched against the wrong sequence.
+ */
+export class RateUpdateFeed {
+  private readonly epoch = Date.now().toString(36);
+  private sequence = 0;
+  private recent: RateUpdateEvent[] = [];
+  private emitter = new EventEmitter();
+
+  constructor(private readonly replayBufferSize: number) {
+    // Every open stream is a listener; there's no leak to warn about.
+    this.emitter.setMaxListeners(0);
+  }
+
+  /** Returns the published event, or null when there was nothing to publish. */
+  public publish(updates: RateUpdate[]): RateUpdateEvent | null {
+    if (updates.length === 0) return null;
+    const event: RateUpdateEvent = {
+      id: `${this.epoch}-${++this.sequence}`,
+      publishedAt: Date.now(),
+      updates,
+    };
+    this.recent.push(event);
+    if (this.recent.length > this.replayBufferSize) this.recent.shift();
+    this.emitter.emit("update", event);
+    return event;
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.emitter.on("update", listener);
+    return () => this.emitter.off("update", listener);
+  }
+
+  /** The ID of the latest event, or null if none was published yet. */
+  public lastEventId(): string | null {
+    return this.sequence > 0 ? `${this.epoch}-${this.sequence}` : null;
+  }
+
+  /**
+   * Events published after `lastEventId`, oldest first. Returns null when
+   * the ID is malformed, from another process lifetime, or older than the
+   * replay buffer; the client then needs a full snapshot instead.
+   */
+  public since(lastEventId: string): RateUpdateEvent[] | null {
+    const [epoch, seq] = lastEventId.split("-");
+    const sequence = Number(seq);
+    if (epoch !== this.epoch || !Number.isInteger(sequence)) return null;
+    if (sequence > this.sequence) return null;
+    if (sequence === this.sequence) return [];
+
+    const oldest = this.recent[0];
+    const oldestSequence = oldest ? Number(oldest.id.split("-")[1]) : Infinity;
+    // Event `sequence + 1` must still be buffered for the replay to be gapless.
+    if (sequence + 1 < oldestSequence) return null;
+    return this.recent.filter((e) => Number(e.id.split("-")[1]) > sequence);
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  RateType,
+  RateUpdate,
+  StandardizedAsset,
+  StandardizedData,
+  StandardizedRate,
+} from "@/lib/core/data-contracts";
+
+/**
+ * Lists the assets whose rates differ between two merged snapshots. Only
+ * prices count as a change; a refetch that returns the same rates with a
+ * newer timestamp produces no update. `previous` is null for the first
+ * snapshot, in which case every asset is reported as added.
+ */
+export function diffSnapshots(
+  previous: StandardizedData | null,
+  current: StandardizedData
+): RateUpdate[] {
+  const before = previous?.assets ?? {};
+  const updates: RateUpdate[] = [];
+
+  for (const asset of Object.values(current.assets)) {
+    const old = before[asset.identifier];
+    if (!old) {
+      updates.push({
+        assetId: asset.identifier,
+        kind: "added",
+        changedRateTypes: Object.keys(asset.rates) as RateType[],
+        rates: asset.rates,
+        source: asset.source,
+        timestamp: asset.timestamp,
+      });
+      continue;
+    }
+    const changedRateTypes = changedRates(old, asset);
+    if (changedRateTypes.length === 0) continue;
+    updates.push({
+      assetId: asset.identifier,
+      kind: "updated",
+      changedRateTypes,
+      rates: asset.rates,
+      previousRates: old.rates,
+      source: asset.source,
+      timestamp: asset.timestamp,
+    });
+  }
+
+  for (const old of Object.values(before)) {
+    if (current.assets[old.identifier]) continue;
+    updates.push({
+      assetId: old.identifier,
+      kind: "removed",
+      changedRateTypes: Object.keys(old.rates) as RateType[],
+      previousRates: old.rates,
+      source: old.source,
+      timestamp: old.timestamp,
+    });
+  }
+  return updates;
+}
+
+function changedRates(
+  previous: StandardizedAsset,
+  current: StandardizedAsset
+): RateType[] {
+  const rateTypes = new Set([
+    ...Object.keys(previous.rates),
+    ...Object.keys(current.rates),
+  ] as RateType[]);
+  return Array.from(rateTypes).filter(
+    (rateType) =>
+      !sameRate(previous.rates[rateType], current.rates[rateType])
+  );
+}
+
+function sameRate(a?: StandardizedRate, b?: StandardizedRate): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.buying === b.buying &&
+    a.selling === b.selling &&
+    a.midRate === b.midRate &&
+    a.unit === b.unit
+  );
+}
@@ -0,0 +1,76 @@
+import {
+  DataSourceHealth,
+  IDataSource,
+  RateType,
+  StandardizedAsset,
+  StandardizedData,
+} from "@/lib/core/data-contracts";
+
+/** Test data builders. Not used outside the test suite. */
+
+/** A currency asset quoted by one source, with one rate type. */
+export function makeAsset(
+  identifier: string,
+  source: string,
+  rateType: RateType,
+  buying: number,
+  selling: number,
+  timestamp = 1_000
+): StandardizedAsset {
+  return {
+    identifier,
+    name: identifier,
+    type: "currency",
+    source,
+    timestamp,
+    rates: {
+      [rateType]: {
+        buying,
+        selling,
+        midRate: (buying + selling) / 2,
+        unit: identifier.split("_")[1] ?? "",
+      },
+    },
+    historicalData: [],
+  };
+}
+
+export function makeData(...assets: StandardizedAsset[]): StandardizedData {
+  const data: StandardizedData = { assets: {} };
+  for (const asset of assets) data.assets[asset.identifier] = asset;
+  return data;
+}
+
+/**
+ * An in-memory source. Each fetch calls `respond`, which can return data or
+ * throw; `calls` counts fetches.
+ */
+export class FakeSource implements IDataSource {
+  public calls = 0;
+  public status: DataSourceHealth["status"] = "healthy";
+
+  constructor(
+    public readonly name: string,
+    public respond: () => StandardizedData | Promise<StandardizedData>
+  ) {}
+
+  public async fetchStandardizedData(): Promise<StandardizedData> {
+    this.calls++;
+    return this.respond();
+  }
+
+  public async checkHealth(): Promise<void> {}
+
+  public getHealth = (): DataSourceHealth => ({
+    source: this.name,
+    status: this.status,
+    lastCheck: 0,
+    latency: 0,
+    breaker: { state: this.status === "failed" ? "open" : "closed", consecutiveFailures: 0 },
+    quarantine: {
+      total: 0,
+      byReason: { schema: 0, invariant: 0, outlier: 0 },
+      recent: [],
+    },
+  });
+}
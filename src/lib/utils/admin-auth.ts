@@ -0,0 +1,34 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getAppConfig } from "@/lib/config/app-config";
+import { apiError, ApiResponse } from "./api-response";
+
+/**
+ * Guards the admin endpoints. Requests need `Authorization: Bearer <token>`
+ * matching `admin.token`; with no token configured the endpoints are open in
+ * development and refused in production.
+ *
+ * Returns the error response to send, or null when the request may proceed.
+ */
+export function authorizeAdmin(
+  request: NextRequest
+): NextResponse<ApiResponse<never>> | null {
+  const { token } = getAppConfig().admin;
+  if (!token) {
+    return process.env.NODE_ENV === "production"
+      ? apiError("Admin API is disabled: no ADMIN_TOKEN configured", 403)
+      : null;
+  }
+  const header = request.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match || !tokensMatch(match[1].trim(), token)) {
+    return apiError("Missing or invalid admin token", 401);
+  }
+  return null;
+}
+
+function tokensMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+/** The envelope every API route responds with. */
+export type ApiResponse<T> =
+  | { success: true; data: T; meta?: Record<string, unknown> }
+  | { success: false; message: string; details?: unknown };
+
+export function apiSuccess<T>(
+  data: T,
+  meta?: Record<string, unknown>,
+  status = 200
+): NextResponse<ApiResponse<T>> {
+  const body: ApiResponse<T> = meta
+    ? { success: true, data, meta }
+    : { success: true, data };
+  return NextResponse.json(body, { status });
+}
+
+export function apiError(
+  message: string,
+  status: number,
+  details?: unknown
+): NextResponse<ApiResponse<never>> {
+  const body: ApiResponse<never> =
+    details === undefined
+      ? { success: false, message }
+      : { success: false, message, details };
+  return NextResponse.json(body, { status });
+}
+
+/** Splits a comma-separated query param into trimmed, non-empty values. */
+export function parseListParam(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
+
+/**
+ * Parses a time query param given either as epoch milliseconds or as an
+ * ISO-8601 date. Returns `undefined` when absent and `null` when malformed.
+ */
+export function parseTimeParam(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
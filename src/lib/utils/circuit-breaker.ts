@@ -0,0 +1,82 @@
+import { CircuitBreakerState, CircuitState } from "@/lib/core/data-contracts";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial call is allowed. */
+  resetTimeoutMs: number;
+}
+
+/**
+ * A consecutive-failure circuit breaker.
+ * - `closed`: calls flow; `failureThreshold` failures in a row open it.
+ * - `open`: calls are refused until `resetTimeoutMs` has passed.
+ * - `half_open`: one trial call is let through. Success closes the circuit,
+ *   failure re-opens it for another full timeout.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | undefined;
+  private trialInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /** Whether a call may proceed now. Claims the trial slot when half-open. */
+  public tryAcquire(now = Date.now()): boolean {
+    this.refresh(now);
+    if (this.state === "closed") return true;
+    if (this.state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  public recordFailure(now = Date.now()): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (
+      this.state === "half_open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = now;
+    }
+  }
+
+  public isHalfOpen(now = Date.now()): boolean {
+    this.refresh(now);
+    return this.state === "half_open";
+  }
+
+  public getState(now = Date.now()): CircuitBreakerState {
+    this.refresh(now);
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt !== undefined && {
+        openedAt: this.openedAt,
+        nextRetryAt: this.openedAt + this.options.resetTimeoutMs,
+      }),
+    };
+  }
+
+  // An open circuit becomes half-open lazily, the first time anyone looks.
+  private refresh(now: number): void {
+    if (
+      this.state === "open" &&
+      this.openedAt !== undefined &&
+      now >= this.openedAt + this.options.resetTimeoutMs
+    ) {
+      this.state = "half_open";
+    }
+  }
+}
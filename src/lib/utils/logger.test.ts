@@ -0,0 +1,22 @@
+import { describe, expect, it, vi } from "vitest";
+import { Logger } from "./logger";
+
+describe("Logger", () => {
+  it("retries the config after it failed to load, keeping what was logged meanwhile", () => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("LOG_LEVEL", "loud");
+    new Logger("Test").info("before the config loaded");
+    expect(Logger.getLevel()).toBe("info");
+
+    vi.stubEnv("LOG_LEVEL", "warn");
+    new Logger("Test").warn("after the config loaded");
+    expect(Logger.getLevel()).toBe("warn");
+    expect(Logger.getLogs().entries.map((entry) => entry.message)).toEqual([
+      "before the config loaded",
+      "after the config loaded",
+    ]);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+});
@@ -1,20 +1,40 @@
-// (This file remains the same - a solid utility doesn't need frequent changes)
-import { getAppConfig } from "@/lib/config/app-config";
-
-export type LogLevel = "debug" | "info" | "warn" | "error";
-export interface LogEntry {
-  timestamp: number;
-  level: LogLevel;
-  component: string;
-  message: string;
-  data?: unknown;
-}
+import { AppConfig, getAppConfig } from "@/lib/config/app-config";
+import { ConsoleSink } from "@/lib/logging/console.sink";
+import { getCorrelationId } from "@/lib/logging/log.context";
+import {
+  LOG_LEVEL_PRIORITY,
+  LogEntry,
+  LogLevel,
+  LogPage,
+  LogQuery,
+  LogSink,
+} from "@/lib/logging/log.types";
+import { MemorySink } from "@/lib/logging/memory.sink";
+import { RotatingFileSink } from "@/lib/logging/rotating-file.sink";
+
+export { LOG_LEVELS } from "@/lib/logging/log.types";
+export type { LogEntry, LogLevel, LogPage, LogQuery } from "@/lib/logging/log.types";
 
+/**
+ * Structured logging. Each entry goes to every sink configured under
+ * `logging` (console, rotating file) and to an in-memory ring that
+ * `getLogs` queries. Entries carry the correlation ID of the request or job
+ * they were logged in; see `runWithCorrelationId`.
+ *
+ * Sinks and the level are set up from the config on first use, so importing
+ * this module never reads the config. While the config fails to load,
+ * entries go to the console and memory, and each later call tries again.
+ */
 export class Logger {
-  private static logs: LogEntry[] = [];
-  private static maxLogs = 500;
-  private static logLevel: LogLevel = getAppConfig().logLevel;
+  private static level: LogLevel;
+  private static levelSet = false;
+  private static sinks: LogSink[] | null = null;
+  private static fallback = false;
+  private static memory: MemorySink;
+  private static nextId = 1;
+
   constructor(private readonly component: string) {}
+
   public debug(message: string, data?: unknown): void {
     this.log("debug", message, data);
   }
@@ -27,30 +47,79 @@ export class Logger {
   public error(message: string, data?: unknown): void {
     this.log("error", message, data);
   }
+
   private log(level: LogLevel, message: string, data?: unknown): void {
-    const priority = { debug: 0, info: 1, warn: 2, error: 3 };
-    if (priority[level] < priority[Logger.logLevel]) return;
+    const sinks = Logger.setup();
+    if (LOG_LEVEL_PRIORITY[level] < LOG_LEVEL_PRIORITY[Logger.level]) return;
     const entry: LogEntry = {
+      id: Logger.nextId++,
       timestamp: Date.now(),
       level,
       component: this.component,
       message,
     };
-    if (data !== undefined) {
-      entry.data = data;
+    const correlationId = getCorrelationId();
+    if (correlationId) entry.correlationId = correlationId;
+    if (data !== undefined) entry.data = data;
+    for (const sink of sinks) {
+      try {
+        sink.write(entry);
+      } catch {
+        // A broken sink must not take logging, or its caller, down with it.
+      }
     }
-    Logger.logs.push(entry);
-    if (Logger.logs.length > Logger.maxLogs) Logger.logs.shift();
-    console[level](
-      `[${new Date(entry.timestamp).toISOString()}] [${level.toUpperCase()}] [${
-        this.component
-      }] ${message}`,
-      data ?? ""
-    );
-  }
-  static getLogs(level?: LogLevel): LogEntry[] {
-    if (!level) return Logger.logs;
-    const priority = { debug: 0, info: 1, warn: 2, error: 3 };
-    return Logger.logs.filter((log) => priority[log.level] >= priority[level]);
+  }
+
+  private static setup(): LogSink[] {
+    if (Logger.sinks && !Logger.fallback) return Logger.sinks;
+    let config: AppConfig;
+    try {
+      config = getAppConfig();
+    } catch {
+      // An invalid config is reported by whoever loads it; log plainly meanwhile.
+      if (Logger.sinks) return Logger.sinks;
+      Logger.level ??= "info";
+      Logger.memory = new MemorySink(500);
+      Logger.sinks = [Logger.memory, new ConsoleSink("pretty")];
+      Logger.fallback = true;
+      return Logger.sinks;
+    }
+    const { logging } = config;
+    if (!Logger.levelSet) Logger.level = config.logLevel;
+    const earlier = Logger.fallback ? Logger.memory.query({ limit: Infinity }).entries : [];
+    Logger.memory = new MemorySink(logging.memoryCapacity);
+    for (const entry of earlier) Logger.memory.write(entry);
+    const sinks: LogSink[] = [Logger.memory];
+    if (logging.console.enabled) sinks.push(new ConsoleSink(logging.console.format));
+    if (logging.file) sinks.push(new RotatingFileSink(logging.file));
+    Logger.sinks = sinks;
+    Logger.fallback = false;
+    return sinks;
+  }
+
+  static getLevel(): LogLevel {
+    Logger.setup();
+    return Logger.level;
+  }
+
+  /** Takes effect for every logger at once. */
+  static setLevel(level: LogLevel): void {
+    Logger.setup();
+    Logger.level = level;
+    Logger.levelSet = true;
+  }
+
+  static getSinkNames(): string[] {
+    return Logger.setup().map((sink) => sink.name);
+  }
+
+  static getLogs(query: LogQuery = {}): LogPage {
+    Logger.setup();
+    return Logger.memory.query(query);
+  }
+
+  /** Waits for sinks to flush, e.g. before the process exits. */
+  static async close(): Promise<void> {
+    await Promise.all(Logger.setup().map((sink) => sink.close?.()));
   }
 }
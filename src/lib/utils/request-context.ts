@@ -0,0 +1,73 @@
+import { newCorrelationId, runWithCorrelationId } from "@/lib/logging/log.context";
+import { pipelineMetrics } from "@/lib/metrics/pipeline.metrics";
+
+/** Carries a request's correlation ID in and out. */
+export const CORRELATION_HEADER = "X-Request-Id";
+
+// Accept a caller's ID only if it is short and safe to echo into logs.
+const ACCEPTED_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Wraps a route handler so everything it logs, down through the orchestrator
+ * and the data sources, shares one correlation ID. The ID is taken from the
+ * request's `X-Request-Id` header when it has a usable one, generated
+ * otherwise, and returned in the same header.
+ *
+ * Each request's handling time is recorded too, labelled with the route
+ * pattern (e.g. `/api/v1/assets/[id]`) rather than the concrete path.
+ */
+export function withRequestContext<
+  Req extends Request,
+  Rest extends unknown[],
+  Res extends Response,
+>(
+  handler: (request: Req, ...rest: Rest) => Promise<Res>
+): (request: Req, ...rest: Rest) => Promise<Res> {
+  return (request, ...rest) => {
+    const given = request.headers.get(CORRELATION_HEADER);
+    const id = given && ACCEPTED_ID.test(given) ? given : newCorrelationId();
+    const stopTimer = pipelineMetrics.httpRequestDuration.startTimer({
+      method: request.method,
+      route: routePattern(new URL(request.url).pathname, rest[0]),
+    });
+    return runWithCorrelationId(id, async () => {
+      try {
+        const response = await handler(request, ...rest);
+        response.headers.set(CORRELATION_HEADER, id);
+        stopTimer({ status: String(response.status) });
+        return response;
+      } catch (error) {
+        stopTimer({ status: "500" });
+        throw error;
+      }
+    });
+  };
+}
+
+/** Puts the dynamic segments back, so each route is one series however many ids it serves. */
+function routePattern(pathname: string, context: unknown): string {
+  const params = (context as { params?: Record<string, string | string[]> } | undefined)
+    ?.params;
+  if (!params) return pathname;
+  const names = new Map<string, string>();
+  for (const [name, value] of Object.entries(params)) {
+    for (const segment of Array.isArray(value) ? value : [value]) {
+      names.set(segment, name);
+    }
+  }
+  return pathname
+    .split("/")
+    .map((segment) => {
+      const name = names.get(segment) ?? names.get(safeDecode(segment));
+      return name ? `[${name}]` : segment;
+    })
+    .join("/");
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
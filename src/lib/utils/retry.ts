@@ -0,0 +1,45 @@
+export interface RetryOptions {
+  /** Total attempts, including the first one. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Random spread applied to each delay, 0 (none) to 1 (±100%). */
+  jitter: number;
+}
+
+/** Exponential backoff delay before retry number `attempt` (1-based). */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1)
+  );
+  const spread = exponential * options.jitter * (Math.random() * 2 - 1);
+  return Math.min(
+    options.maxDelayMs,
+    Math.max(0, Math.round(exponential + spread))
+  );
+}
+
+/**
+ * Runs `operation` until it succeeds or `maxAttempts` is reached, waiting an
+ * exponentially growing, jittered delay between attempts. The last error is
+ * rethrown.
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  let attempt = 1;
+  for (;;) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.maxAttempts) throw error;
+      const delayMs = backoffDelay(attempt, options);
+      onRetry?.(error, attempt, delayMs);
+      await new Promise((res) => setTimeout(res, delayMs));
+      attempt++;
+    }
+  }
+}
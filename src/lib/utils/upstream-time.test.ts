@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { MAX_CLOCK_SKEW_MS, parseDayFirstDateTime, plausibleUpstreamTime } from "./upstream-time";
+
+describe("parseDayFirstDateTime", () => {
+  it("reads a 12-hour time in the given zone", () => {
+    expect(parseDayFirstDateTime("Last Updated: 19/10/2026 10:05 AM", "Africa/Cairo")).toBe(
+      Date.parse("2026-10-19T07:05:00Z")
+    );
+    expect(parseDayFirstDateTime("19/10/2026 3:40 p.m.", "UTC")).toBe(
+      Date.parse("2026-10-19T15:40:00Z")
+    );
+  });
+
+  it("maps 12 AM to midnight and 12 PM to noon", () => {
+    expect(parseDayFirstDateTime("19/10/2026 12:15 AM", "UTC")).toBe(
+      Date.parse("2026-10-19T00:15:00Z")
+    );
+    expect(parseDayFirstDateTime("19/10/2026 12:15 PM", "UTC")).toBe(
+      Date.parse("2026-10-19T12:15:00Z")
+    );
+  });
+
+  it("reads 24-hour times in the French styles", () => {
+    expect(parseDayFirstDateTime("Mise à jour : 19/10/2026 09:30", "Africa/Algiers")).toBe(
+      Date.parse("2026-10-19T08:30:00Z")
+    );
+    expect(parseDayFirstDateTime("le 19-10-2026 à 09h30", "Africa/Algiers")).toBe(
+      Date.parse("2026-10-19T08:30:00Z")
+    );
+  });
+
+  it("takes a date alone as the start of that day in the zone", () => {
+    expect(parseDayFirstDateTime("Cotation du 19.10.2026", "Africa/Algiers")).toBe(
+      Date.parse("2026-10-18T23:00:00Z")
+    );
+  });
+
+  it.each([
+    ["no date at all", "bientôt"],
+    ["a day past the end of the month", "31/02/2026"],
+    ["a 29 February outside leap years", "29/02/2026"],
+    ["month 13", "12/13/2026"],
+    ["hour 24", "19/10/2026 24:00"],
+    ["a 12-hour clock past 12", "19/10/2026 13:00 PM"],
+    ["hour 0 on a 12-hour clock", "19/10/2026 0:30 AM"],
+  ])("rejects %s", (_case, text) => {
+    expect(parseDayFirstDateTime(text, "UTC")).toBeNull();
+  });
+
+  it("accepts 29 February in a leap year", () => {
+    expect(parseDayFirstDateTime("29/02/2028", "UTC")).toBe(Date.parse("2028-02-29T00:00:00Z"));
+  });
+});
+
+describe("plausibleUpstreamTime", () => {
+  const fetchedAt = Date.parse("2026-10-19T12:00:00Z");
+
+  it("keeps times at or before the fetch", () => {
+    expect(plausibleUpstreamTime(fetchedAt - 1000, fetchedAt)).toBe(fetchedAt - 1000);
+  });
+
+  it("caps times slightly ahead of our clock at the fetch time", () => {
+    expect(plausibleUpstreamTime(fetchedAt + MAX_CLOCK_SKEW_MS, fetchedAt)).toBe(fetchedAt);
+  });
+
+  it("rejects missing times and times too far ahead", () => {
+    expect(plausibleUpstreamTime(null, fetchedAt)).toBeNull();
+    expect(plausibleUpstreamTime(undefined, fetchedAt)).toBeNull();
+    expect(plausibleUpstreamTime(NaN, fetchedAt)).toBeNull();
+    expect(plausibleUpstreamTime(fetchedAt + MAX_CLOCK_SKEW_MS + 1, fetchedAt)).toBeNull();
+  });
+});
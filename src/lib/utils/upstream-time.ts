@@ -0,0 +1,56 @@
+import { zonedTimeToEpoch } from "./zoned-time";
+
+/**
+ * How far ahead of our clock an upstream timestamp may be and still be
+ * believed; beyond that it is more likely misparsed than skewed.
+ */
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const DAY_FIRST_DATE =
+  /(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[\s,T]+(?:(?:à|at)\s+)?(\d{1,2})[:hH](\d{2})(?:\s*([AaPp])\.?[Mm]\.?)?)?/;
+
+/**
+ * Finds the first `DD/MM/YYYY` date in `text`, with an optional `HH:MM`
+ * time and AM/PM, and reads it as wall-clock time in `timeZone`. A date
+ * alone means the start of that day.
+ * @returns Epoch milliseconds, or null when there is no valid date.
+ */
+export function parseDayFirstDateTime(text: string, timeZone: string): number | null {
+  const match = text.match(DAY_FIRST_DATE);
+  if (!match) return null;
+  const [, day, month, year, hourText, minute, meridiem] = match;
+  let hour = hourText ? Number(hourText) : 0;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem.toLowerCase() === "p" ? 12 : 0);
+  }
+  const fields = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour,
+    minute: minute ? Number(minute) : 0,
+  };
+  if (fields.month < 1 || fields.month > 12 || fields.hour > 23 || fields.minute > 59) {
+    return null;
+  }
+  // Reject dates like 31/02 rather than letting them roll into March.
+  const probe = new Date(Date.UTC(fields.year, fields.month - 1, fields.day));
+  if (probe.getUTCDate() !== fields.day) return null;
+  return zonedTimeToEpoch(fields, timeZone);
+}
+
+/**
+ * An upstream timestamp checked against the fetch time: capped at it when
+ * slightly ahead, and rejected (null) when missing or too far ahead.
+ */
+export function plausibleUpstreamTime(
+  upstream: number | null | undefined,
+  fetchedAt: number
+): number | null {
+  if (upstream === null || upstream === undefined || !Number.isFinite(upstream)) {
+    return null;
+  }
+  if (upstream > fetchedAt + MAX_CLOCK_SKEW_MS) return null;
+  return Math.min(upstream, fetchedAt);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { isValidTimeZone, toZonedIsoString, zonedTimeToEpoch } from "./zoned-time";
+
+const at = (year: number, month: number, day: number, hour: number, minute = 0) => ({
+  year,
+  month,
+  day,
+  hour,
+  minute,
+});
+
+describe("isValidTimeZone", () => {
+  it("knows IANA names and UTC, and nothing else", () => {
+    expect(isValidTimeZone("Africa/Cairo")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("zonedTimeToEpoch", () => {
+  it("applies the zone's standard and summer offsets", () => {
+    expect(zonedTimeToEpoch(at(2026, 1, 15, 12), "Europe/Paris")).toBe(
+      Date.parse("2026-01-15T11:00:00Z")
+    );
+    expect(zonedTimeToEpoch(at(2026, 7, 1, 12), "Europe/Paris")).toBe(
+      Date.parse("2026-07-01T10:00:00Z")
+    );
+    expect(zonedTimeToEpoch(at(2026, 10, 19, 10, 5), "Africa/Cairo")).toBe(
+      Date.parse("2026-10-19T07:05:00Z")
+    );
+  });
+
+  it("uses the offset in force at that wall-clock time around a DST change", () => {
+    // Paris springs forward at 01:00Z on 29 March 2026.
+    expect(zonedTimeToEpoch(at(2026, 3, 29, 1, 30), "Europe/Paris")).toBe(
+      Date.parse("2026-03-29T00:30:00Z")
+    );
+    expect(zonedTimeToEpoch(at(2026, 3, 29, 3, 30), "Europe/Paris")).toBe(
+      Date.parse("2026-03-29T01:30:00Z")
+    );
+  });
+
+  it("moves a wall-clock time skipped by DST an hour forward", () => {
+    expect(zonedTimeToEpoch(at(2026, 3, 29, 2, 30), "Europe/Paris")).toBe(
+      Date.parse("2026-03-29T01:30:00Z")
+    );
+  });
+
+  it("picks one of the two moments for a time repeated by DST", () => {
+    const epoch = zonedTimeToEpoch(at(2026, 10, 25, 2, 30), "Europe/Paris");
+    expect([Date.parse("2026-10-25T00:30:00Z"), Date.parse("2026-10-25T01:30:00Z")]).toContain(
+      epoch
+    );
+  });
+});
+
+describe("toZonedIsoString", () => {
+  it("writes the zone's offset, or Z for UTC", () => {
+    const epoch = Date.parse("2026-10-19T07:05:00Z");
+    expect(toZonedIsoString(epoch, "Africa/Cairo")).toBe("2026-10-19T10:05:00.000+03:00");
+    expect(toZonedIsoString(epoch, "America/New_York")).toBe("2026-10-19T03:05:00.000-04:00");
+    expect(toZonedIsoString(epoch, "UTC")).toBe("2026-10-19T07:05:00.000Z");
+  });
+});
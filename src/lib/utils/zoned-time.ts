@@ -0,0 +1,57 @@
+/** Whether this runtime knows `timeZone` as an IANA zone name, or `UTC`. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The moment clocks in `timeZone` show the given wall-clock time. */
+export function zonedTimeToEpoch(
+  time: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string
+): number {
+  const asUtc = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+  // The offset at the first guess is off by the DST shift when one falls in
+  // between; a second pass at the corrected moment settles it.
+  const guess = asUtc - zoneOffsetMs(asUtc, timeZone);
+  return asUtc - zoneOffsetMs(guess, timeZone);
+}
+
+/** How far `timeZone` is ahead of UTC at `epoch`, in milliseconds. */
+export function zoneOffsetMs(epoch: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(epoch));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute")
+  );
+  return wallClock - Math.floor(epoch / 60000) * 60000;
+}
+
+/**
+ * ISO-8601 with the zone's offset, e.g. `2026-10-19T10:05:00.000+03:00`;
+ * plain `toISOString()` output for UTC.
+ */
+export function toZonedIsoString(epoch: number, timeZone: string): string {
+  if (timeZone === "UTC") return new Date(epoch).toISOString();
+  const offset = zoneOffsetMs(epoch, timeZone);
+  const local = new Date(epoch + offset).toISOString().slice(0, -1);
+  const minutes = Math.abs(offset) / 60000;
+  const sign = offset < 0 ? "-" : "+";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${local}${sign}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { StandardizedAsset } from "@/lib/core/data-contracts";
+import { makeAsset, makeData } from "@/lib/testing/builders";
+import { FreshnessTracker } from "./freshness.tracker";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const T0 = Date.parse("2026-10-19T00:00:00Z");
+
+const usd = (source: string, buying: number, timestamp: number) =>
+  makeAsset("USD_EGP", source, "parallel_market", buying, buying + 0.5, timestamp);
+
+const tracker = () => {
+  const t = new FreshnessTracker({ defaultMaxAgeMs: DAY_MS });
+  t.setSourceSettings({
+    Official: { maxAgeMs: 4 * DAY_MS },
+    Parallel: { maxUnchangedMs: 2 * DAY_MS },
+  });
+  return t;
+};
+
+/** Records a fetch that observed `buying` at `at`. */
+const fetch = (t: FreshnessTracker, source: string, buying: number, at: number) =>
+  t.record(source, makeData(usd(source, buying, at)), at);
+
+describe("FreshnessTracker", () => {
+  it("flags data older than the source's max age", () => {
+    const t = tracker();
+    t.record("Official", makeData(usd("Official", 48, T0)), T0 + HOUR_MS);
+    const asset = usd("Official", 48, T0);
+
+    expect(t.assess(asset, T0 + 3 * DAY_MS)).toEqual([
+      {
+        source: "Official",
+        observedAt: T0,
+        ageMs: 3 * DAY_MS,
+        maxAgeMs: 4 * DAY_MS,
+        stale: false,
+      },
+    ]);
+    expect(t.assess(asset, T0 + 5 * DAY_MS)[0]).toMatchObject({ stale: true, reason: "max_age" });
+  });
+
+  it("prefers a per-asset max age, then the source's, then the default", () => {
+    const t = new FreshnessTracker({ defaultMaxAgeMs: DAY_MS, byAsset: { USD_EGP: HOUR_MS } });
+    t.setSourceSettings({ Official: { maxAgeMs: 4 * DAY_MS } });
+    fetch(t, "Official", 48, T0);
+    fetch(t, "Other", 48, T0);
+    expect(t.assess(usd("Official", 48, T0), T0)[0].maxAgeMs).toBe(HOUR_MS);
+
+    const plain = tracker();
+    fetch(plain, "Other", 48, T0);
+    expect(plain.assess(usd("Other", 48, T0), T0)[0].maxAgeMs).toBe(DAY_MS);
+  });
+
+  it("flags values repeated for longer than maxUnchangedMs, however recent", () => {
+    const t = tracker();
+    fetch(t, "Parallel", 50, T0);
+    fetch(t, "Parallel", 50, T0 + DAY_MS / 2);
+    fetch(t, "Parallel", 50, T0 + 2 * DAY_MS + HOUR_MS);
+
+    const [freshness] = t.assess(usd("Parallel", 50, 0), T0 + 2 * DAY_MS + HOUR_MS);
+    expect(freshness).toMatchObject({
+      ageMs: 0,
+      unchangedSince: T0,
+      stale: true,
+      reason: "unchanged",
+    });
+  });
+
+  it("restarts the unchanged clock when the values move", () => {
+    const t = tracker();
+    fetch(t, "Parallel", 50, T0);
+    fetch(t, "Parallel", 50, T0 + DAY_MS);
+    fetch(t, "Parallel", 51, T0 + 2 * DAY_MS);
+    fetch(t, "Parallel", 51, T0 + 2 * DAY_MS + HOUR_MS);
+
+    const [freshness] = t.assess(usd("Parallel", 51, 0), T0 + 2 * DAY_MS + HOUR_MS);
+    expect(freshness).toMatchObject({ unchangedSince: T0 + 2 * DAY_MS, stale: false });
+  });
+
+  it("never flags repeats for sources without maxUnchangedMs", () => {
+    const t = tracker();
+    fetch(t, "Official", 48, T0);
+    fetch(t, "Official", 48, T0 + 3 * DAY_MS);
+    const [freshness] = t.assess(usd("Official", 48, 0), T0 + 3 * DAY_MS);
+    expect(freshness).toMatchObject({ unchangedSince: T0, stale: false });
+  });
+
+  it("reports max_age over unchanged when both apply", () => {
+    const t = tracker();
+    t.record("Parallel", makeData(usd("Parallel", 50, T0)), T0);
+    t.record("Parallel", makeData(usd("Parallel", 50, T0)), T0 + 3 * DAY_MS);
+    const [freshness] = t.assess(usd("Parallel", 50, 0), T0 + 3 * DAY_MS);
+    expect(freshness).toMatchObject({ stale: true, reason: "max_age" });
+  });
+
+  it("ignores a fetch that completes after a newer one was recorded", () => {
+    const t = tracker();
+    fetch(t, "Parallel", 51, T0 + HOUR_MS);
+    fetch(t, "Parallel", 50, T0); // Started earlier, finished later.
+    const [freshness] = t.assess(usd("Parallel", 51, 0), T0 + HOUR_MS);
+    expect(freshness.observedAt).toBe(T0 + HOUR_MS);
+    expect(freshness.unchangedSince).toBeUndefined();
+  });
+
+  it("assesses every source behind a merged asset, skipping unrecorded ones", () => {
+    const t = tracker();
+    fetch(t, "Official", 48, T0);
+    const merged: StandardizedAsset = {
+      ...usd("Official", 48, T0),
+      provenance: {
+        official: { strategy: "priority", sources: ["Official"], timestamp: T0, rejected: [] },
+        parallel_market: {
+          strategy: "priority",
+          sources: ["Parallel"],
+          timestamp: T0,
+          rejected: [],
+        },
+      },
+    };
+    expect(t.assess(merged, T0).map((f) => f.source)).toEqual(["Official"]);
+  });
+});
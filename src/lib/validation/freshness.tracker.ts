@@ -0,0 +1,117 @@
+import {
+  AssetFreshness,
+  StandardizedAsset,
+  StandardizedData,
+} from "@/lib/core/data-contracts";
+import { FreshnessConfig, SourceConfig } from "@/lib/config/app-config";
+
+/** The SLA settings of one source. */
+export type SourceFreshness = Pick<SourceConfig, "maxAgeMs" | "maxUnchangedMs">;
+
+/** What the latest fetch of one source said about one asset. */
+interface Observation {
+  observedAt: number;
+  fetchedAt: number;
+  /** The rates, to compare the next fetch against. */
+  values: string;
+  /** Observation time of the first fetch that returned `values`. */
+  since: number;
+  /** Whether a later fetch has returned the same `values`. */
+  repeated: boolean;
+}
+
+/**
+ * Tracks how current each source's data is, asset by asset, to catch an
+ * upstream that keeps answering with old numbers. Two signals are checked:
+ * the upstream observation time against the asset's max-age SLA, and, for
+ * sources with a `maxUnchangedMs`, how long consecutive fetches have
+ * returned exactly the same values.
+ *
+ * Observations are kept in memory, so after a restart the unchanged-value
+ * clock starts again from the first fetch seen.
+ */
+export class FreshnessTracker {
+  private observations = new Map<string, Observation>();
+  private sourceSettings: Record<string, SourceFreshness> = {};
+
+  constructor(private readonly config: FreshnessConfig) {}
+
+  /** Replaces the per-source SLAs, e.g. after a source is updated at runtime. */
+  public setSourceSettings(settings: Record<string, SourceFreshness>): void {
+    this.sourceSettings = settings;
+  }
+
+  /** Records one fetch of a source; fetches older than the last one recorded are ignored. */
+  public record(source: string, data: StandardizedData, fetchedAt: number): void {
+    for (const asset of Object.values(data.assets)) {
+      const key = this.key(source, asset.identifier);
+      const previous = this.observations.get(key);
+      if (previous && previous.fetchedAt >= fetchedAt) continue;
+      const values = fingerprint(asset);
+      const unchanged = previous?.values === values;
+      this.observations.set(key, {
+        observedAt: asset.timestamp,
+        fetchedAt,
+        values,
+        since: unchanged ? previous.since : asset.timestamp,
+        repeated: unchanged,
+      });
+    }
+  }
+
+  /**
+   * Assesses every source contributing a rate to `asset`. Sources with no
+   * recorded fetch of the asset are left out.
+   */
+  public assess(asset: StandardizedAsset, now = Date.now()): AssetFreshness[] {
+    const sources = new Set<string>();
+    for (const provenance of Object.values(asset.provenance ?? {})) {
+      provenance?.sources.forEach((source) => sources.add(source));
+    }
+    if (sources.size === 0) sources.add(asset.source);
+
+    const assessed: AssetFreshness[] = [];
+    for (const source of Array.from(sources)) {
+      const observation = this.observations.get(this.key(source, asset.identifier));
+      if (!observation) continue;
+      const settings = this.sourceSettings[source] ?? {};
+      const maxAgeMs =
+        this.config.byAsset?.[asset.identifier] ??
+        settings.maxAgeMs ??
+        this.config.defaultMaxAgeMs;
+      const ageMs = Math.max(0, now - observation.observedAt);
+      const freshness: AssetFreshness = {
+        source,
+        observedAt: observation.observedAt,
+        ageMs,
+        maxAgeMs,
+        stale: false,
+      };
+      if (observation.repeated) freshness.unchangedSince = observation.since;
+
+      if (ageMs > maxAgeMs) {
+        freshness.stale = true;
+        freshness.reason = "max_age";
+      } else if (
+        observation.repeated &&
+        settings.maxUnchangedMs !== undefined &&
+        now - observation.since > settings.maxUnchangedMs
+      ) {
+        freshness.stale = true;
+        freshness.reason = "unchanged";
+      }
+      assessed.push(freshness);
+    }
+    return assessed;
+  }
+
+  private key = (source: string, assetId: string): string => `${source}|${assetId}`;
+}
+
+function fingerprint(asset: StandardizedAsset): string {
+  return Object.entries(asset.rates)
+    .filter(([, rate]) => rate)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([rateType, rate]) => `${rateType}:${rate!.buying}/${rate!.selling}`)
+    .join(",");
+}
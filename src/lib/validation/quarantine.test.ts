@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { describe, expect, it } from "vitest";
+import { StandardizedData } from "@/lib/core/data-contracts";
+import { BaseDataSource } from "@/lib/data-sources/base.data-source";
+import { makeAsset, makeData } from "@/lib/testing/builders";
+import { Quarantine } from "./quarantine";
+
+const payloadSchema = z.object({ buying: z.number(), selling: z.number() }).strict();
+
+/** Serves `payload` as its upstream response, checked against `payloadSchema`. */
+class PayloadSource extends BaseDataSource {
+  protected readonly rawSchema = payloadSchema;
+
+  constructor(public payload: unknown) {
+    super("Payload-API", undefined, {
+      retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, jitter: 0 },
+      breaker: { failureThreshold: 5, resetTimeoutMs: 1000 },
+    });
+  }
+
+  protected async executeFetch(): Promise<unknown> {
+    return this.payload;
+  }
+
+  protected adaptToStandardizedFormat(rawData: unknown): StandardizedData {
+    const { buying, selling } = rawData as z.infer<typeof payloadSchema>;
+    return makeData(makeAsset("USD_EGP", this.name, "official", buying, selling));
+  }
+
+  public async checkHealth(): Promise<void> {}
+}
+
+describe("Quarantine", () => {
+  it("counts records by reason and keeps the latest, newest first", () => {
+    const quarantine = new Quarantine();
+    const at = (quarantinedAt: number, reason: "schema" | "outlier" = "outlier") => ({
+      source: "A",
+      reason,
+      detail: "",
+      quarantinedAt,
+    });
+    quarantine.add([at(1, "schema")]);
+    quarantine.add(Array.from({ length: 25 }, (_, i) => at(i + 2)));
+
+    const summary = quarantine.getSummary();
+    expect(summary.total).toBe(26);
+    expect(summary.byReason).toEqual({ schema: 1, invariant: 0, outlier: 25 });
+    expect(summary.recent).toHaveLength(20);
+    expect(summary.recent[0].quarantinedAt).toBe(26);
+  });
+});
+
+describe("BaseDataSource quarantine", () => {
+  it("quarantines a payload that fails `rawSchema` and fails the fetch", async () => {
+    const source = new PayloadSource({ buying: "50", selling: 51, extra: true });
+    await expect(source.fetchStandardizedData()).rejects.toThrow(
+      "[Payload-API] Payload failed schema validation (2 issues)"
+    );
+
+    const { quarantine } = source.getHealth();
+    expect(quarantine.byReason.schema).toBe(1);
+    expect(quarantine.recent[0]).toMatchObject({ source: "Payload-API", reason: "schema" });
+    expect(quarantine.recent[0].detail).toContain("buying: Expected number, received string");
+    expect(quarantine.recent[0].assetId).toBeUndefined();
+  });
+
+  it("quarantines rejected rates and fails the fetch when none are left", async () => {
+    const source = new PayloadSource({ buying: 52, selling: 51 });
+    await expect(source.fetchStandardizedData()).rejects.toThrow("All 1 rates were quarantined");
+    expect(source.getHealth().quarantine.recent[0]).toMatchObject({
+      reason: "invariant",
+      assetId: "USD_EGP",
+      rateType: "official",
+    });
+
+    source.payload = { buying: 50, selling: 51 };
+    const data = await source.fetchStandardizedData();
+    expect(data.assets.USD_EGP.rates.official?.buying).toBe(50);
+  });
+});
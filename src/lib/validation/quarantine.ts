@@ -0,0 +1,34 @@
+import {
+  QuarantinedRecord,
+  QuarantineSummary,
+} from "@/lib/core/data-contracts";
+
+/** How many records each source keeps for its health report. */
+const RECENT_LIMIT = 20;
+
+/** A source's rejected records: running totals plus the latest few. */
+export class Quarantine {
+  private recent: QuarantinedRecord[] = [];
+  private byReason: QuarantineSummary["byReason"] = {
+    schema: 0,
+    invariant: 0,
+    outlier: 0,
+  };
+
+  public add(records: QuarantinedRecord[]): void {
+    for (const record of records) {
+      this.byReason[record.reason]++;
+      this.recent.unshift(record);
+    }
+    this.recent.length = Math.min(this.recent.length, RECENT_LIMIT);
+  }
+
+  public getSummary(): QuarantineSummary {
+    const { schema, invariant, outlier } = this.byReason;
+    return {
+      total: schema + invariant + outlier,
+      byReason: { ...this.byReason },
+      recent: [...this.recent],
+    };
+  }
+}
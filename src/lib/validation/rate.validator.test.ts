@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { StandardizedRate } from "@/lib/core/data-contracts";
+import { makeAsset, makeData } from "@/lib/testing/builders";
+import { checkRateInvariants, RateValidator } from "./rate.validator";
+
+const rate = (buying: number, selling: number, midRate = (buying + selling) / 2) =>
+  ({ buying, selling, midRate, unit: "EGP" }) satisfies StandardizedRate;
+
+const quote = (buying: number, selling: number) =>
+  makeData(makeAsset("USD_EGP", "A", "parallel_market", buying, selling));
+
+describe("checkRateInvariants", () => {
+  it("accepts a sound rate", () => {
+    expect(checkRateInvariants(rate(50, 51))).toBeNull();
+  });
+
+  it.each([
+    ["buying above selling", rate(52, 51), "buying (52) is above selling (51)"],
+    ["a zero price", rate(0, 51), "buying is not positive (0)"],
+    ["a negative price", rate(-1, 51, 25), "buying is not positive (-1)"],
+    ["a missing price", rate(NaN, 51), "buying is not a finite number (NaN)"],
+    ["a mid rate outside the spread", rate(50, 51, 52), "midRate (52) is outside the spread"],
+    ["an empty unit", { ...rate(50, 51), unit: "" }, "unit is empty"],
+  ])("rejects %s", (_, input, reason) => {
+    expect(checkRateInvariants(input)).toContain(reason);
+  });
+});
+
+describe("RateValidator", () => {
+  const validator = () =>
+    new RateValidator("A", { maxJumpPercent: 10, outlierConfirmations: 3 });
+
+  it("quarantines broken rates, dropping assets left with none", () => {
+    const { data, rejected } = validator().validate(quote(52, 51), 1_000);
+    expect(data.assets).toEqual({});
+    expect(rejected).toEqual([
+      {
+        source: "A",
+        reason: "invariant",
+        detail: "buying (52) is above selling (51)",
+        assetId: "USD_EGP",
+        rateType: "parallel_market",
+        rate: rate(52, 51),
+        quarantinedAt: 1_000,
+      },
+    ]);
+  });
+
+  it("accepts moves within the jump limit", () => {
+    const v = validator();
+    v.validate(quote(50, 51));
+    const { data, rejected } = v.validate(quote(54, 55));
+    expect(rejected).toEqual([]);
+    expect(data.assets.USD_EGP.rates.parallel_market?.buying).toBe(54);
+  });
+
+  it("accepts a jump only once it repeats on enough consecutive fetches", () => {
+    const v = validator();
+    v.validate(quote(50, 51));
+
+    const first = v.validate(quote(70, 71));
+    expect(first.rejected[0]).toMatchObject({ reason: "outlier" });
+    expect(first.rejected[0].detail).toContain("seen 1 of 3");
+    expect(v.validate(quote(70.5, 71.5)).rejected[0].detail).toContain("seen 2 of 3");
+
+    const third = v.validate(quote(71, 72));
+    expect(third.rejected).toEqual([]);
+    // The confirmed level is the new baseline.
+    expect(v.validate(quote(72, 73)).rejected).toEqual([]);
+  });
+
+  it("starts counting again when the jumps don't agree with each other", () => {
+    const v = validator();
+    v.validate(quote(50, 51));
+    v.validate(quote(70, 71));
+    expect(v.validate(quote(90, 91)).rejected[0].detail).toContain("seen 1 of 3");
+    // A quote back near the baseline is accepted and clears the pending jump.
+    expect(v.validate(quote(50.5, 51.5)).rejected).toEqual([]);
+    expect(v.validate(quote(90, 91)).rejected[0].detail).toContain("seen 1 of 3");
+  });
+
+  it("applies a per-asset jump limit", () => {
+    const v = new RateValidator("A", {
+      maxJumpPercent: 10,
+      byAsset: { USD_EGP: 50 },
+      outlierConfirmations: 3,
+    });
+    v.validate(quote(50, 51));
+    expect(v.validate(quote(70, 71)).rejected).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  AssetIdentifier,
+  QuarantinedRecord,
+  RateType,
+  StandardizedAsset,
+  StandardizedData,
+  StandardizedRate,
+} from "@/lib/core/data-contracts";
+import { ValidationConfig } from "@/lib/config/app-config";
+
+// Room for floating-point error when checking the mid rate against the spread.
+const EPSILON = 1e-9;
+
+/** Returns why a rate is malformed, or null when it is sound. */
+export function checkRateInvariants(rate: StandardizedRate): string | null {
+  for (const field of ["buying", "selling", "midRate"] as const) {
+    if (typeof rate[field] !== "number" || !Number.isFinite(rate[field])) {
+      return `${field} is not a finite number (${rate[field]})`;
+    }
+    if (rate[field] <= 0) return `${field} is not positive (${rate[field]})`;
+  }
+  if (rate.buying > rate.selling) {
+    return `buying (${rate.buying}) is above selling (${rate.selling})`;
+  }
+  const slack = rate.selling * EPSILON;
+  if (rate.midRate < rate.buying - slack || rate.midRate > rate.selling + slack) {
+    return `midRate (${rate.midRate}) is outside the spread ${rate.buying}-${rate.selling}`;
+  }
+  if (!rate.unit) return "unit is empty";
+  return null;
+}
+
+/**
+ * Screens one source's adapted output before it is cached or merged. Each
+ * rate must pass the invariants in `checkRateInvariants`, and its mid rate
+ * must stay within `maxJumpPercent` of the last value accepted from this
+ * source. A jump that repeats (within the same limit) on
+ * `outlierConfirmations` consecutive fetches is a real move, not a glitch,
+ * and becomes the new baseline.
+ */
+export class RateValidator {
+  private lastAccepted = new Map<string, number>();
+  private pendingJumps = new Map<string, { midRate: number; seen: number }>();
+
+  constructor(
+    private readonly sourceName: string,
+    private readonly config: ValidationConfig
+  ) {}
+
+  /** Returns a copy of `data` without the rejected rates, and the rejections. */
+  public validate(
+    data: StandardizedData,
+    now = Date.now()
+  ): { data: StandardizedData; rejected: QuarantinedRecord[] } {
+    const rejected: QuarantinedRecord[] = [];
+    const clean: StandardizedData = { assets: {} };
+
+    for (const asset of Object.values(data.assets)) {
+      const rates: StandardizedAsset["rates"] = {};
+      for (const [key, rate] of Object.entries(asset.rates)) {
+        if (!rate) continue;
+        const rateType = key as RateType;
+        const reject = (reason: QuarantinedRecord["reason"], detail: string) =>
+          rejected.push({
+            source: this.sourceName,
+            reason,
+            detail,
+            assetId: asset.identifier,
+            rateType,
+            rate,
+            quarantinedAt: now,
+          });
+
+        const broken = checkRateInvariants(rate);
+        if (broken) {
+          reject("invariant", broken);
+          continue;
+        }
+        const jump = this.checkJump(asset.identifier, rateType, rate.midRate);
+        if (jump) {
+          reject("outlier", jump);
+          continue;
+        }
+        rates[rateType] = rate;
+      }
+      // An asset with nothing left to offer is dropped entirely.
+      if (Object.keys(rates).length === 0) continue;
+      clean.assets[asset.identifier] = {
+        ...asset,
+        rates,
+        historicalData: asset.historicalData.filter(
+          (p) => Number.isFinite(p.value) && p.value > 0
+        ),
+      };
+    }
+    return { data: clean, rejected };
+  }
+
+  /** Returns why the move is rejected, or null after accepting it. */
+  private checkJump(
+    assetId: AssetIdentifier,
+    rateType: RateType,
+    midRate: number
+  ): string | null {
+    const key = `${assetId}|${rateType}`;
+    const limit = this.config.byAsset?.[assetId] ?? this.config.maxJumpPercent;
+    const last = this.lastAccepted.get(key);
+    if (last === undefined || percentMove(last, midRate) <= limit) {
+      this.accept(key, midRate);
+      return null;
+    }
+
+    const pending = this.pendingJumps.get(key);
+    const seen =
+      pending && percentMove(pending.midRate, midRate) <= limit
+        ? pending.seen + 1
+        : 1;
+    if (seen >= this.config.outlierConfirmations) {
+      this.accept(key, midRate);
+      return null;
+    }
+    this.pendingJumps.set(key, { midRate, seen });
+    return `midRate ${midRate} moved ${percentMove(last, midRate).toFixed(
+      1
+    )}% from the last accepted ${last} (limit ${limit}%); seen ${seen} of ${
+      this.config.outlierConfirmations
+    } times needed to accept`;
+  }
+
+  private accept(key: string, midRate: number): void {
+    this.lastAccepted.set(key, midRate);
+    this.pendingJumps.delete(key);
+  }
+}
+
+function percentMove(from: number, to: number): number {
+  return (Math.abs(to - from) / from) * 100;
+}
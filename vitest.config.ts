@@ -0,0 +1,21 @@
+import os from "os";
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@/lib": path.resolve(__dirname, "src/lib") },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+    // Every test file gets its own module graph, so config and singletons
+    // are built from these variables afresh in each one.
+    env: {
+      LOG_LEVEL: "error",
+      APP_CONFIG__logging__console__enabled: "false",
+      SCHEDULER_ENABLED: "false",
+      HISTORY_STORE_PATH: path.join(os.tmpdir(), "currency-pipeline-test", "history.ndjson"),
+    },
+  },
+});